@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { ContentProviders, DocumentationContentProvider } from './contentProviders';
+import { DocsViewViewProvider } from './docsView';
+import { DocumentationPanels } from './documentationPanel';
+import { DocumentationView } from './documentationView';
+import { HistoryEntry } from './history';
+import { Renderer } from './renderer';
+
+export { DocumentationContent, DocumentationContentProvider } from './contentProviders';
+
+/**
+ * The api that other extensions get from `vscode.extensions.getExtension('bierner.docs-view').activate()`.
+ */
+export interface DocsViewApi {
+	/**
+	 * Show documentation in one of the views.
+	 *
+	 * Plain strings are rendered as untrusted markdown. Pass a trusted `MarkdownString` to allow command links.
+	 */
+	showDocumentation(content: string | vscode.MarkdownString | readonly vscode.Hover[], options?: ShowDocumentationOptions): Promise<void>;
+
+	/**
+	 * Add documentation for documents matching `selector`, or replace the documentation from their language's hovers.
+	 */
+	registerContentProvider(selector: vscode.DocumentSelector, provider: DocumentationContentProvider): vscode.Disposable;
+
+	/**
+	 * Fired whenever one of the views shows documentation.
+	 */
+	readonly onDidShowDocumentation: vscode.Event<DocumentationShownEvent>;
+}
+
+export interface ShowDocumentationOptions {
+	/** Title of the documentation, used for pinned tabs and history. */
+	readonly title?: string;
+
+	/** Document that relative links and images are resolved against. Defaults to the active editor's document. */
+	readonly uri?: vscode.Uri;
+
+	/** Language of code blocks that don't specify one. Defaults to the language of `uri`. */
+	readonly languageId?: string;
+
+	/** Which view to show the documentation in. Defaults to `documentationView`. */
+	readonly view?: 'documentationView' | 'panelView';
+
+	/** Show the documentation as a new pinned tab, so that it isn't replaced when the cursor moves. Defaults to `false`. */
+	readonly pin?: boolean;
+
+	/** Reveal the view if it isn't visible. Defaults to `false`. */
+	readonly reveal?: boolean;
+}
+
+export interface DocumentationShownEvent {
+	/** The view that shows the documentation, such as `documentationView`. */
+	readonly view: string;
+	readonly title: string;
+	readonly uri: vscode.Uri;
+	readonly position: vscode.Position;
+	readonly markdown: string;
+}
+
+/** Webview view types of the views that documentation can be shown in through the api */
+const viewTypes: ReadonlyMap<string, string> = new Map([
+	['documentationView', DocsViewViewProvider.viewType],
+	['panelView', DocsViewViewProvider.panelViewType],
+]);
+
+/**
+ * @param disposables Receives the disposables that the api needs until the extension is deactivated.
+ */
+export function createApi(
+	renderer: Renderer,
+	contentProviders: ContentProviders,
+	views: readonly DocumentationView[],
+	editorPanels: DocumentationPanels,
+	disposables: vscode.Disposable[],
+): DocsViewApi {
+	const onDidShowDocumentation = new vscode.EventEmitter<DocumentationShownEvent>();
+	disposables.push(onDidShowDocumentation);
+
+	const fire = (view: string, entry: HistoryEntry) => {
+		onDidShowDocumentation.fire({
+			view,
+			title: entry.symbol,
+			uri: entry.uri,
+			position: entry.position,
+			markdown: entry.markdown,
+		});
+	};
+
+	for (const view of views) {
+		view.onDidShowEntry(entry => fire(view.id, entry), null, disposables);
+	}
+	editorPanels.onDidShowEntry(entry => fire(DocumentationPanels.id, entry), null, disposables);
+
+	return {
+		async showDocumentation(content, options = {}) {
+			const viewId = options.view ?? 'documentationView';
+			const view = views.find(view => view.id === viewId);
+			if (!view) {
+				throw new Error(`Unknown view '${viewId}'`);
+			}
+
+			const uri = options.uri ?? vscode.window.activeTextEditor?.document.uri;
+			const languageId = options.languageId
+				?? (uri ? vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString())?.languageId : undefined)
+				?? 'plaintext';
+
+			const rendered = await renderer.render(languageId, getHovers(content));
+
+			// Reveal the view first, since a view that becomes visible shows its content again
+			if (options.reveal) {
+				await vscode.commands.executeCommand(`${viewTypes.get(viewId)}.focus`);
+			}
+
+			view.showDocumentation({
+				symbol: options.title ?? '',
+				uri: uri ?? vscode.Uri.from({ scheme: 'untitled', path: options.title || 'Documentation' }),
+				position: new vscode.Position(0, 0),
+				markdown: rendered.markdown,
+				html: rendered.html,
+			}, !!options.pin);
+		},
+
+		registerContentProvider(selector, provider) {
+			return contentProviders.register(selector, provider);
+		},
+
+		onDidShowDocumentation: onDidShowDocumentation.event,
+	};
+}
+
+function getHovers(content: string | vscode.MarkdownString | readonly vscode.Hover[]): readonly vscode.Hover[] {
+	if (typeof content === 'string') {
+		return [new vscode.Hover(new vscode.MarkdownString(content))];
+	}
+	if (content instanceof vscode.MarkdownString) {
+		return [new vscode.Hover(content)];
+	}
+	return content;
+}
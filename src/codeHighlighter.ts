@@ -1,51 +1,56 @@
-import json5 from 'json5';
+import * as path from 'path';
 import * as shiki from 'shiki';
-import type { IShikiTheme, Theme } from 'shiki';
-import { Highlighter } from 'shiki';
+import type { ILanguageRegistration, IShikiTheme, Theme } from 'shiki';
 import * as vscode from 'vscode';
+import { Worker } from 'worker_threads';
+import { ExtensionGrammars } from './extensionGrammars';
+import { HighlighterRequest, HighlighterResponse } from './highlighterProtocol';
+import { logger } from './logger';
+import { ColorThemeJson, getCurrentThemeName, getCurrentThemePath, getTokenColorCustomizations, loadColorTheme } from './themeLoader';
 
-declare const TextDecoder: any;
+/** Longer code blocks are shown without highlighting, since highlighting them could take seconds */
+const maxHighlightLength = 100_000;
 
-// Default themes use `include` option that shiki doesn't support
-const defaultThemesMap = new Map<string, Theme>([
-	['Default Light+', 'light-plus'],
-	['Default Dark+', 'dark-plus'],
-]);
+export class CodeHighlighter {
 
-function getCurrentThemePath(themeName: string): vscode.Uri | undefined {
-	for (const ext of vscode.extensions.all) {
-		const themes = ext.packageJSON.contributes && ext.packageJSON.contributes.themes;
-		if (!themes) {
-			continue;
-		}
+	private readonly _disposables: vscode.Disposable[] = [];
 
-		const theme = themes.find((theme: any) => theme.label === themeName || theme.id === themeName);
-		if (theme) {
-			return vscode.Uri.joinPath(ext.extensionUri, theme.path);
-		}
-	}
-}
+	private readonly _worker = new HighlighterWorker();
 
-export class CodeHighlighter {
+	/** Resolves once the worker has been sent the current theme */
+	private _themeLoaded: Promise<unknown>;
 
-	private readonly _disposables: vscode.Disposable[] = [];
+	private readonly _grammars = new ExtensionGrammars();
+
+	/** Languages whose grammar could not be loaded with the current theme */
+	private readonly _failedLanguages = new Set<string>();
 
-	private _highlighter?: Promise<Highlighter>;
+	/** Code block languages that have already been logged as unknown, so that they are only logged once */
+	private readonly _unknownLanguages = new Set<string>();
+
+	private _themeColors?: ThemeColors;
+
+	private _updateRequest = 0;
 
 	constructor() {
 		this._needsRender = new vscode.EventEmitter<void>();
 		this._disposables.push(this._needsRender);
 		this.needsRender = this._needsRender.event;
 
+		this._disposables.push(this._grammars, this._worker);
+
 		vscode.workspace.onDidChangeConfiguration(e => {
-			if (e.affectsConfiguration('workbench.colorTheme')) {
-				this.update().then(() => {
-					this._needsRender.fire();
-				});
+			if (e.affectsConfiguration('workbench.colorTheme') || e.affectsConfiguration('editor.tokenColorCustomizations')) {
+				this.updateAndRender();
 			}
 		}, null, this._disposables);
 
-		this.update();
+		// Also catches themes that change automatically, such as to match the OS or high contrast
+		vscode.window.onDidChangeActiveColorTheme(() => {
+			this.updateAndRender();
+		}, null, this._disposables);
+
+		this._themeLoaded = this.update();
 	}
 
 	private readonly _needsRender: vscode.EventEmitter<void>;
@@ -58,66 +63,275 @@ export class CodeHighlighter {
 		}
 	}
 
-	public async getHighlighter(document: vscode.TextDocument): Promise<(code: string, language: string) => string> {
-		const highlighter = await this._highlighter;
+	/**
+	 * Highlight a code block on the worker thread.
+	 *
+	 * @param info Info string of the code block, such as `ts`.
+	 * @param defaultLanguage Language of code blocks that don't specify one, usually the language of the document the docs are for.
+	 *
+	 * @returns The highlighted html, or `undefined` if the code can't be highlighted.
+	 */
+	public async highlight(code: string, info: string, defaultLanguage: string): Promise<string | undefined> {
+		const language = info || defaultLanguage;
+		if (!language) {
+			return undefined;
+		}
 
-		return (code: string, inputLanguage: string): string => {
-			const language = inputLanguage || document.languageId;
-			if (language && highlighter) {
-				try {
-					const languageId = getLanguageId(language);
-					if (languageId) {
-						return highlighter.codeToHtml!(code, languageId);
-					}
-				} catch (err) {
-					// noop
-				}
+		const languageId = this.getShikiLanguageId(language);
+		const grammar = languageId && !isBundledLanguage(languageId) ? this._grammars.getGrammar(languageId) : undefined;
+		if (!languageId || (!grammar && !isBundledLanguage(languageId))) {
+			if (info) {
+				this.logUnknownLanguage(info);
 			}
+			return undefined;
+		}
 
-			return code;
-		};
+		if (this._failedLanguages.has(languageId)) {
+			return undefined;
+		}
+
+		if (code.length > maxHighlightLength) {
+			logger.debug(`Not highlighting a '${language}' code block of ${code.length} characters`);
+			return undefined;
+		}
+
+		await this._themeLoaded;
+		let response: HighlighterResponse;
+		try {
+			response = await this._worker.highlight(code, languageId, grammar);
+		} catch (e) {
+			logger.warn(`Could not highlight a '${language}' code block of ${code.length} characters: ${e}`);
+			return undefined;
+		}
+
+		if (response.type === 'highlighted') {
+			return response.html;
+		}
+
+		if (response.languageFailed) {
+			// Shiki can only load json grammars
+			this._failedLanguages.add(languageId);
+			logger.warn(`Could not load the grammar for '${languageId}'${grammar ? ` from ${grammar.path}` : ''}: ${response.error}`);
+		} else {
+			logger.warn(`Could not highlight a '${language}' code block: ${response.error}`);
+		}
+		return undefined;
 	}
 
-	private async update() {
-		const theme = (await CodeHighlighter.getShikiTheme()) ?? 'dark-plus';
-		this._highlighter = shiki.getHighlighter({ theme });
+	/**
+	 * Colors of the current theme, for use outside of VS Code such as when exporting.
+	 */
+	public get themeColors(): ThemeColors {
+		return this._themeColors ?? defaultThemeColors;
 	}
 
-	private static async getShikiTheme(): Promise<IShikiTheme | undefined> {
-		let theme: string | IShikiTheme | undefined;
-
-		const currentThemeName = vscode.workspace.getConfiguration('workbench').get<string>('colorTheme');
-		if (currentThemeName && defaultThemesMap.has(currentThemeName)) {
-			theme = defaultThemesMap.get(currentThemeName);
-		} else if (currentThemeName) {
-			const colorThemePath = getCurrentThemePath(currentThemeName);
-			if (colorThemePath) {
-				theme = await shiki.loadTheme(colorThemePath.fsPath);
-
-				theme.name = 'random'; // Shiki doesn't work without name and defaults to `Nord`
-
-				// Add explicit default foreground color rule to match VS Code
-				// https://github.com/shikijs/shiki/issues/45
-				theme.settings.push({
-					settings: {
-						foreground: await getDefaultForeground(colorThemePath),
-					}
-				});
-			}
+	/**
+	 * Get the shiki language id for a code block info string.
+	 */
+	private getShikiLanguageId(info: string): string | undefined {
+		const knownId = getLanguageId(info);
+		if (knownId) {
+			return knownId;
 		}
 
-		if (typeof theme === 'string') {
-			theme = await shiki.loadTheme(theme as any);
+		// Try resolving aliases and file extensions to a VS Code language id
+		const languageId = this._grammars.getLanguageId(info) ?? info;
+		return getLanguageId(languageId)
+			?? (isBundledLanguage(languageId) ? languageId : undefined)
+			?? this._grammars.getGrammar(languageId)?.id;
+	}
+
+	private logUnknownLanguage(language: string) {
+		if (!this._unknownLanguages.has(language)) {
+			this._unknownLanguages.add(language);
+			logger.info(`Unknown code block language '${language}'. Code blocks in it are not highlighted.`);
+		}
+	}
+
+	private async updateAndRender() {
+		const update = this.update();
+		this._themeLoaded = update;
+		if (await update) {
+			this._needsRender.fire();
+		}
+	}
+
+	/**
+	 * @returns If the theme was updated. This is false if another update started in the meantime.
+	 */
+	private async update(): Promise<boolean> {
+		const request = ++this._updateRequest;
+
+		let theme: IShikiTheme | undefined;
+		try {
+			theme = await CodeHighlighter.getShikiTheme();
+		} catch (e) {
+			logger.warn(`Could not load color theme '${getCurrentThemeName()}': ${e}`);
+		}
+		if (!theme) {
+			logger.info('Highlighting code with a default theme, since the current color theme could not be found');
+			theme = await CodeHighlighter.getFallbackTheme();
+		}
+
+		if (request !== this._updateRequest) {
+			return false;
+		}
+
+		this._themeColors = {
+			foreground: theme.fg || defaultThemeColors.foreground,
+			background: theme.bg || defaultThemeColors.background,
+		};
+		theme.bg = ' '; // Don't set bg so that we use the view's background instead
+		this._worker.setTheme(theme);
+		this._failedLanguages.clear();
+		return true;
+	}
+
+	private static async getShikiTheme(): Promise<IShikiTheme | undefined> {
+		const currentThemeName = getCurrentThemeName();
+		if (!currentThemeName) {
+			return undefined;
 		}
 
-		if (theme) {
-			theme.bg = ' '; // Don't set bg so that we use the view's background instead
+		const colorThemePath = getCurrentThemePath(currentThemeName);
+		if (!colorThemePath) {
+			return undefined;
 		}
+
+		// Resolve `include` ourselves since shiki does not support all the ways VS Code themes use it
+		const colorTheme = await loadColorTheme(colorThemePath);
+		const theme = shiki.toShikiTheme({
+			...colorTheme,
+			name: 'random', // Shiki doesn't work without name and defaults to `Nord`
+		} as any);
+
+		// Add explicit default foreground color rule to match VS Code
+		// https://github.com/shikijs/shiki/issues/45
+		theme.settings.push({
+			settings: {
+				foreground: getDefaultForeground(colorTheme),
+			}
+		});
+
+		theme.settings.push(...getTokenColorCustomizations(currentThemeName));
+
 		return theme;
 	}
+
+	private static getFallbackTheme(): Promise<IShikiTheme> {
+		const kind = vscode.window.activeColorTheme.kind;
+		const theme: Theme = kind === vscode.ColorThemeKind.Light || kind === vscode.ColorThemeKind.HighContrastLight
+			? 'light-plus'
+			: 'dark-plus';
+		return shiki.loadTheme(`themes/${theme}.json`);
+	}
+}
+
+/**
+ * Runs highlighting on a worker thread. The worker is only started once the first code block is highlighted.
+ */
+class HighlighterWorker {
+
+	/** Milliseconds after which a code block is given up on, such as when a grammar backtracks on it */
+	private static readonly timeout = 5000;
+
+	private _worker?: Worker;
+	private _theme?: IShikiTheme;
+
+	private _nextId = 0;
+	private readonly _pending = new Map<number, {
+		readonly worker: Worker;
+		readonly resolve: (response: HighlighterResponse) => void;
+		readonly reject: (error: Error) => void;
+		readonly timer: ReturnType<typeof setTimeout>;
+	}>();
+
+	dispose() {
+		this._worker?.terminate();
+		this._worker = undefined;
+	}
+
+	public setTheme(theme: IShikiTheme) {
+		this._theme = theme;
+		this._worker?.postMessage({ type: 'setTheme', theme } satisfies HighlighterRequest);
+	}
+
+	/**
+	 * @throws If the code block takes longer than {@link HighlighterWorker.timeout}, or the worker stopped.
+	 */
+	public highlight(code: string, language: string, grammar: ILanguageRegistration | undefined): Promise<HighlighterResponse> {
+		const id = this._nextId++;
+		const worker = this.getWorker();
+		return new Promise((resolve, reject) => {
+			const timer = setTimeout(() => {
+				// The worker highlights one code block at a time, so it would never get to the others
+				this._pending.get(id)?.reject(new Error(`Highlighting took longer than ${HighlighterWorker.timeout}ms`));
+				this._pending.delete(id);
+				if (this._worker === worker) {
+					this._worker = undefined;
+				}
+				worker.terminate();
+			}, HighlighterWorker.timeout);
+
+			this._pending.set(id, { worker, resolve, reject, timer });
+			worker.postMessage({ type: 'highlight', id, code, language, grammar } satisfies HighlighterRequest);
+		});
+	}
+
+	private getWorker(): Worker {
+		if (this._worker) {
+			return this._worker;
+		}
+
+		const worker = new Worker(path.join(__dirname, 'highlightWorker.js'));
+
+		// Don't keep the extension host alive just for highlighting
+		worker.unref();
+
+		worker.on('message', (response: HighlighterResponse) => {
+			const pending = this._pending.get(response.id);
+			this._pending.delete(response.id);
+			if (pending) {
+				clearTimeout(pending.timer);
+				pending.resolve(response);
+			}
+		});
+
+		worker.on('error', e => {
+			logger.error('Highlighting worker failed', e);
+		});
+
+		worker.on('exit', () => {
+			if (this._worker === worker) {
+				this._worker = undefined;
+			}
+
+			// Show the code blocks that were still waiting without highlighting. A new worker is started for the next ones.
+			for (const [id, pending] of this._pending) {
+				if (pending.worker === worker) {
+					clearTimeout(pending.timer);
+					pending.reject(new Error('The highlighting worker stopped'));
+					this._pending.delete(id);
+				}
+			}
+		});
+
+		if (this._theme) {
+			worker.postMessage({ type: 'setTheme', theme: this._theme } satisfies HighlighterRequest);
+		}
+		this._worker = worker;
+		return worker;
+	}
+}
+
+function isBundledLanguage(id: string): boolean {
+	return shiki.BUNDLED_LANGUAGES.some(language => language.id === id || language.aliases?.includes(id));
 }
 
-function getLanguageId(inId: string): string | undefined {
+/**
+ * Get the VS Code language id for a code block language, such as `typescript` for `ts`.
+ */
+export function getLanguageId(inId: string): string | undefined {
 	for (const language of languages) {
 		if (inId === language.name || language.identifiers.some(langId => inId === langId)) {
 			return language.language;
@@ -126,30 +340,33 @@ function getLanguageId(inId: string): string | undefined {
 	return undefined;
 }
 
+export interface ThemeColors {
+	readonly foreground: string;
+	readonly background: string;
+}
+
+// Used if a theme does not specify its colors
+const defaultThemeColors: ThemeColors = {
+	foreground: '#D4D4D4',
+	background: '#1E1E1E',
+};
+
 const defaultDarkForeground = '#cccccc';
 const defaultLightForeground = '#333333';
 
-async function getDefaultForeground(uri: vscode.Uri): Promise<string> {
-	try {
-		const buffer = await vscode.workspace.fs.readFile(uri);
-		const contents = new TextDecoder("utf-8").decode(buffer);
-		const json = json5.parse(contents);
-
-		// Prefer using the explicit `editor.foreground` if it is set
-		const editorForeground = json.colors?.['editor.foreground'];
-		if (editorForeground) {
-			return editorForeground;
-		}
+function getDefaultForeground(theme: ColorThemeJson): string {
+	// Prefer using the explicit `editor.foreground` if it is set
+	const editorForeground = theme.colors?.['editor.foreground'];
+	if (editorForeground) {
+		return editorForeground;
+	}
 
-		// Otherwise try falling back to type specified in theme
-		const themeType = json['type'];
-		if (typeof themeType === 'string') {
-			return themeType.toLowerCase() === 'light'
-				? defaultLightForeground
-				: defaultDarkForeground;
-		}
-	} catch (e) {
-		// noop
+	// Otherwise try falling back to type specified in theme
+	const themeType = theme.type;
+	if (typeof themeType === 'string') {
+		return themeType.toLowerCase() === 'light'
+			? defaultLightForeground
+			: defaultDarkForeground;
 	}
 
 	// Finally fallback to the active theme
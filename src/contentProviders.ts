@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+
+/**
+ * Documentation that another extension provides for a position in a document.
+ */
+export interface DocumentationContent {
+	readonly hovers: readonly vscode.Hover[];
+
+	/**
+	 * Replace the hovers from language extensions instead of adding to them. Defaults to `false`.
+	 */
+	readonly replace?: boolean;
+}
+
+export interface DocumentationContentProvider {
+	/**
+	 * Shown in the header of the provider's section, and used to hide or order its docs with the `docsView.sources` settings. Defaults to `extension`.
+	 */
+	readonly name?: string;
+
+	provideDocumentation(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<DocumentationContent>;
+}
+
+export interface ProvidedSource {
+	readonly source: string;
+	readonly hovers: readonly vscode.Hover[];
+}
+
+const defaultSource = 'extension';
+
+interface Registration {
+	readonly selector: vscode.DocumentSelector;
+	readonly provider: DocumentationContentProvider;
+}
+
+/**
+ * Content providers that other extensions registered through the api.
+ */
+export class ContentProviders {
+
+	private readonly _registrations: Registration[] = [];
+
+	private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+	/**
+	 * Fired when a provider is registered or unregistered, since this can change the documentation for any position.
+	 */
+	public readonly onDidChange = this._onDidChange.event;
+
+	dispose() {
+		this._registrations.length = 0;
+		this._onDidChange.dispose();
+	}
+
+	public register(selector: vscode.DocumentSelector, provider: DocumentationContentProvider): vscode.Disposable {
+		const registration: Registration = { selector, provider };
+		this._registrations.push(registration);
+		this._onDidChange.fire();
+
+		return new vscode.Disposable(() => {
+			const index = this._registrations.indexOf(registration);
+			if (index >= 0) {
+				this._registrations.splice(index, 1);
+				this._onDidChange.fire();
+			}
+		});
+	}
+
+	/**
+	 * Get the documentation from all providers that match the document.
+	 *
+	 * @returns The provided hovers grouped by provider name, and whether any provider asked to replace the language's own hovers.
+	 */
+	public async provide(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<{ sources: ProvidedSource[]; replace: boolean }> {
+		const matching = this._registrations.filter(registration => vscode.languages.match(registration.selector, document) > 0);
+
+		const results = await Promise.all(matching.map(async registration => {
+			try {
+				return await registration.provider.provideDocumentation(document, position, token);
+			} catch (e) {
+				// A failing provider should not prevent the other docs from showing
+				return undefined;
+			}
+		}));
+
+		return {
+			sources: matching.map((registration, i) => ({
+				source: registration.provider.name || defaultSource,
+				hovers: results[i]?.hovers ?? [],
+			})),
+			replace: results.some(result => result?.replace),
+		};
+	}
+}
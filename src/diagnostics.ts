@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+
+export const applyCodeActionCommand = 'docsView.applyCodeAction';
+
+/**
+ * Identifies a quick fix in the command link of its button. The rendered docs are cached and persisted, so the fix
+ * is looked up again when the button is clicked instead of being kept around.
+ */
+export interface QuickFixReference {
+	readonly uri: string;
+	readonly range: readonly [number, number, number, number];
+	readonly title: string;
+}
+
+/**
+ * Build a section listing the problems on the word at `position`, with buttons for their quick fixes.
+ */
+export async function getDiagnosticsSection(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.MarkdownString | undefined> {
+	const range = document.getWordRangeAtPosition(position) ?? new vscode.Range(position, position);
+	const diagnostics = vscode.languages.getDiagnostics(document.uri)
+		.filter(diagnostic => diagnostic.range.intersection(range) !== undefined);
+
+	if (!diagnostics.length) {
+		return undefined;
+	}
+
+	const markdown = new vscode.MarkdownString();
+	markdown.supportHtml = true;
+	markdown.isTrusted = { enabledCommands: [applyCodeActionCommand] };
+
+	for (const diagnostic of diagnostics) {
+		const severity = vscode.DiagnosticSeverity[diagnostic.severity];
+		markdown.appendMarkdown(`- <span class="diagnostic-severity ${severity.toLowerCase()}">${severity}</span> `);
+		markdown.appendText(diagnostic.message.replace(/\s*\n\s*/g, ' '));
+		appendSource(markdown, diagnostic);
+		markdown.appendMarkdown('\n');
+	}
+
+	const quickFixes = await getQuickFixes(document.uri, range);
+	if (quickFixes.length) {
+		markdown.appendMarkdown('\n');
+		for (const action of quickFixes) {
+			const reference: QuickFixReference = {
+				uri: document.uri.toString(),
+				range: [range.start.line, range.start.character, range.end.line, range.end.character],
+				title: action.title,
+			};
+			const args = encodeURIComponent(JSON.stringify([reference]));
+			markdown.appendMarkdown(`<a class="quick-fix" href="command:${applyCodeActionCommand}?${args}">${escapeHtml(action.title)}</a> `);
+		}
+		markdown.appendMarkdown('\n');
+	}
+
+	return markdown;
+}
+
+/**
+ * Apply a quick fix that was shown in the docs.
+ */
+export async function applyCodeAction(reference: QuickFixReference): Promise<void> {
+	const range = new vscode.Range(...reference.range);
+	const quickFixes = await getQuickFixes(vscode.Uri.parse(reference.uri), range);
+	const action = quickFixes.find(action => action.title === reference.title);
+	if (!action) {
+		vscode.window.showWarningMessage(`The quick fix '${reference.title}' is no longer available. Show the docs again and retry.`);
+		return;
+	}
+
+	if (action.edit) {
+		await vscode.workspace.applyEdit(action.edit);
+	}
+	if (action.command) {
+		await vscode.commands.executeCommand(action.command.command, ...(action.command.arguments ?? []));
+	}
+}
+
+async function getQuickFixes(uri: vscode.Uri, range: vscode.Range): Promise<vscode.CodeAction[]> {
+	const actions = await vscode.commands.executeCommand<Array<vscode.CodeAction | vscode.Command> | undefined>(
+		'vscode.executeCodeActionProvider',
+		uri,
+		range,
+		vscode.CodeActionKind.QuickFix.value);
+
+	return (actions ?? [])
+		.filter((action): action is vscode.CodeAction => action instanceof vscode.CodeAction)
+		.filter(action => !action.disabled && (action.edit || action.command));
+}
+
+function appendSource(markdown: vscode.MarkdownString, diagnostic: vscode.Diagnostic) {
+	if (!diagnostic.source && diagnostic.code === undefined) {
+		return;
+	}
+
+	markdown.appendMarkdown(' — ');
+	if (diagnostic.source) {
+		markdown.appendText(diagnostic.source);
+	}
+
+	const code = diagnostic.code;
+	if (typeof code === 'object') {
+		markdown.appendMarkdown(`([\`${escapeMarkdownLinkText(String(code.value))}\`](${escapeMarkdownLinkTarget(code.target.toString())}))`);
+	} else if (code !== undefined) {
+		markdown.appendMarkdown(`(\`${String(code).replace(/`/g, '')}\`)`);
+	}
+}
+
+function escapeMarkdownLinkText(value: string): string {
+	return value.replace(/[`[\]]/g, '');
+}
+
+/**
+ * Percent-encode the characters that would end the link destination or break out of the link.
+ */
+function escapeMarkdownLinkTarget(value: string): string {
+	return value.replace(/[\s<>()[\]\\`]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;');
+}
@@ -0,0 +1,362 @@
+/**
+ * Options for {@link structureDocTags}.
+ */
+export interface DocTagOptions {
+	/** Collapse the code block with the signature that hovers usually start with */
+	readonly collapseSignature: boolean;
+}
+
+type SectionKind = 'parameters' | 'returns' | 'throws' | 'examples';
+
+const sectionTitles: ReadonlyMap<SectionKind, string> = new Map<SectionKind, string>([
+	['parameters', 'Parameters'],
+	['returns', 'Returns'],
+	['throws', 'Throws'],
+	['examples', 'Examples'],
+]);
+
+const jsDocTags: ReadonlyMap<string, SectionKind | 'deprecated'> = new Map<string, SectionKind | 'deprecated'>([
+	['param', 'parameters'],
+	['parameter', 'parameters'],
+	['arg', 'parameters'],
+	['argument', 'parameters'],
+	['returns', 'returns'],
+	['return', 'returns'],
+	['throws', 'throws'],
+	['throw', 'throws'],
+	['exception', 'throws'],
+	['example', 'examples'],
+	['deprecated', 'deprecated'],
+]);
+
+/** Section headers of Google and NumPy style Python docstrings */
+const docstringHeaders: ReadonlyMap<string, SectionKind> = new Map<string, SectionKind>([
+	['args', 'parameters'],
+	['arguments', 'parameters'],
+	['parameters', 'parameters'],
+	['params', 'parameters'],
+	['keyword args', 'parameters'],
+	['keyword arguments', 'parameters'],
+	['returns', 'returns'],
+	['return', 'returns'],
+	['yields', 'returns'],
+	['raises', 'throws'],
+	['throws', 'throws'],
+	['example', 'examples'],
+	['examples', 'examples'],
+]);
+
+interface DocTag {
+	readonly kind: SectionKind | 'deprecated';
+
+	/** The lines of the tag's content. The first line is the text after the tag name. */
+	readonly lines: readonly string[];
+}
+
+/**
+ * Turn JSDoc tags and docstring sections in the markdown of a hover into labeled, collapsible sections.
+ *
+ * Parameters, returns, throws and examples are moved below the prose. Deprecations are shown as a banner above it.
+ * Markdown without any recognized tags is returned unchanged.
+ */
+export function structureDocTags(markdown: string, options: DocTagOptions): string {
+	const lines = markdown.split(/\r?\n/);
+
+	const prose: string[] = [];
+	const tags: DocTag[] = [];
+
+	let fence: string | undefined;
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		if (fence) {
+			prose.push(line);
+			if (isFenceEnd(line, fence)) {
+				fence = undefined;
+			}
+			continue;
+		}
+
+		const fenceStart = getFenceStart(line);
+		if (fenceStart) {
+			fence = fenceStart;
+			prose.push(line);
+			continue;
+		}
+
+		const jsDocTag = matchJsDocTag(line);
+		const jsDocKind = jsDocTag && jsDocTags.get(jsDocTag.name.toLowerCase());
+		if (jsDocTag && jsDocKind) {
+			const end = findJsDocTagEnd(lines, i + 1);
+			const continuation = lines.slice(i + 1, end);
+			// Each parameter or throws tag is a single list item, so indent its other lines to continue the item
+			const isListItem = jsDocKind === 'parameters' || jsDocKind === 'throws';
+			tags.push({ kind: jsDocKind, lines: [jsDocTag.text, ...(isListItem ? continuation.map(line => '  ' + line) : continuation)] });
+			i = end - 1;
+			continue;
+		}
+
+		const docstringSection = matchDocstringSection(lines, i);
+		if (docstringSection) {
+			tags.push({ kind: docstringSection.kind, lines: dedent(lines.slice(docstringSection.start, docstringSection.end)) });
+			i = docstringSection.end - 1;
+			continue;
+		}
+
+		prose.push(line);
+	}
+
+	while (prose.length && !prose[prose.length - 1].trim()) {
+		prose.pop();
+	}
+
+	const signatureEnd = options.collapseSignature ? getLeadingCodeBlockEnd(prose) : -1;
+	if (!tags.length && signatureEnd < 0) {
+		return markdown;
+	}
+
+	const out: string[] = [];
+	for (const tag of tags) {
+		if (tag.kind === 'deprecated') {
+			const text = tag.lines.join('\n').replace(/^\s*[—-]?\s*/, '').trim();
+			out.push('<div class="deprecation-banner">', '', `**Deprecated**${text ? ' — ' + text : ''}`, '', '</div>', '');
+		}
+	}
+
+	if (signatureEnd >= 0) {
+		out.push(...renderSection('Signature', prose.slice(0, signatureEnd + 1), false), '');
+		out.push(...prose.slice(signatureEnd + 1));
+	} else {
+		out.push(...prose);
+	}
+
+	for (const [kind, title] of sectionTitles) {
+		const items = tags.filter(tag => tag.kind === kind);
+		if (items.length) {
+			out.push('', ...renderSection(title, items.flatMap(tag => formatTag(kind, tag.lines)), true));
+		}
+	}
+
+	return out.join('\n');
+}
+
+function renderSection(title: string, content: readonly string[], open: boolean): string[] {
+	let end = content.length;
+	while (end > 0 && !content[end - 1].trim()) {
+		end--;
+	}
+
+	return [
+		`<details class="doc-section"${open ? ' open' : ''}>`,
+		`<summary>${title}</summary>`,
+		'',
+		...content.slice(0, end),
+		'',
+		'</details>',
+	];
+}
+
+function formatTag(kind: SectionKind, lines: readonly string[]): string[] {
+	switch (kind) {
+		case 'parameters':
+		case 'throws':
+			return formatListItems(lines, kind === 'parameters');
+
+		case 'returns':
+			return formatReturns(lines);
+
+		case 'examples':
+			return formatExample(lines);
+	}
+}
+
+/**
+ * Format the lines of a tag as list items. Lines that are not indented start a new item.
+ */
+function formatListItems(lines: readonly string[], isParameter: boolean): string[] {
+	const out: string[] = [];
+	for (const line of lines) {
+		if (!line.trim()) {
+			continue;
+		}
+
+		if (/^\s/.test(line) && out.length) {
+			out.push('  ' + line.trim());
+		} else {
+			out.push('- ' + (isParameter ? formatParameter(line.trim()) : line.trim().replace(/^[—-]\s*/, '')));
+		}
+	}
+	return out;
+}
+
+/**
+ * Format the lines of a returns tag. In NumPy docstrings each return value is a line with its type, followed by an
+ * indented description, which are kept on separate lines. Other returns are a single paragraph.
+ */
+function formatReturns(lines: readonly string[]): string[] {
+	const isTyped = lines.slice(1).some(line => line.trim() && /^\s/.test(line));
+	if (!isTyped) {
+		const text = lines.map(line => line.trim()).join('\n').replace(/^[—-]\s*/, '').trim();
+		return [text, ''];
+	}
+
+	const out: string[] = [];
+	for (const line of lines) {
+		if (!line.trim()) {
+			continue;
+		}
+
+		if (/^\s/.test(line) && out.length) {
+			out.push(line.trim());
+		} else {
+			out.push(...(out.length ? [''] : []), line.trim().replace(/^[—-]\s*/, ''), '');
+		}
+	}
+	return [...out, ''];
+}
+
+/**
+ * Put the name of a parameter in code, for example `name (int): The name` or `{string} name The name`.
+ */
+function formatParameter(text: string): string {
+	if (text.startsWith('`')) {
+		// Already formatted, such as by TypeScript
+		return text;
+	}
+
+	const match = text.match(/^(?:\{([^}]*)\}\s*)?(\[?[\w$.*]+(?:=[^\]]*)?\]?)(.*)$/);
+	if (!match) {
+		return text;
+	}
+
+	const [, type, name, rest] = match;
+	const description = rest.replace(/^\s*[—-]\s*/, ' — ');
+	return `\`${name}\`${type ? ` \`${type}\`` : ''}${description}`;
+}
+
+function formatExample(lines: readonly string[]): string[] {
+	const content = [...lines];
+	while (content.length && !content[0].trim()) {
+		content.shift();
+	}
+	while (content.length && !content[content.length - 1].trim()) {
+		content.pop();
+	}
+
+	if (content.some(line => getFenceStart(line))) {
+		return [...content, ''];
+	}
+
+	const language = content.some(line => line.trimStart().startsWith('>>>')) ? 'python' : '';
+	return ['```' + language, ...content, '```', ''];
+}
+
+/**
+ * Match a JSDoc tag at the start of a line, either raw as `@param` or as TypeScript shows it in hovers, `*@param*`.
+ */
+function matchJsDocTag(line: string): { name: string; text: string } | undefined {
+	const match = line.match(/^ {0,3}(?:\*@(\w+)\*|@(\w+)\b)(.*)$/);
+	if (!match) {
+		return undefined;
+	}
+	return { name: match[1] ?? match[2], text: match[3].trim() };
+}
+
+/**
+ * Find the line after the content of a JSDoc tag, which ends at the next tag.
+ */
+function findJsDocTagEnd(lines: readonly string[], start: number): number {
+	let fence: string | undefined;
+	for (let i = start; i < lines.length; i++) {
+		if (fence) {
+			if (isFenceEnd(lines[i], fence)) {
+				fence = undefined;
+			}
+		} else if ((fence = getFenceStart(lines[i]))) {
+			continue;
+		} else if (matchJsDocTag(lines[i])) {
+			return i;
+		}
+	}
+	return lines.length;
+}
+
+/**
+ * Match a Google style `Args:` or NumPy style `Parameters` + `----------` section header.
+ *
+ * @returns The kind of the section and the range of its content lines.
+ */
+function matchDocstringSection(lines: readonly string[], index: number): { kind: SectionKind; start: number; end: number } | undefined {
+	const google = lines[index].match(/^(\s*)([A-Za-z][A-Za-z ]*):\s*$/);
+	const googleKind = google && docstringHeaders.get(google[2].toLowerCase());
+	if (google && googleKind) {
+		// The section continues while lines are indented more than the header
+		const indent = google[1].length;
+		let end = index + 1;
+		while (end < lines.length && (!lines[end].trim() || getIndent(lines[end]) > indent)) {
+			end++;
+		}
+		while (end > index + 1 && !lines[end - 1].trim()) {
+			end--;
+		}
+		return end > index + 1 ? { kind: googleKind, start: index + 1, end } : undefined;
+	}
+
+	const numpyKind = isNumpyHeader(lines, index) ? docstringHeaders.get(lines[index].trim().toLowerCase()) : undefined;
+	if (numpyKind) {
+		// The section continues until the next section header
+		let end = index + 2;
+		while (end < lines.length && !isNumpyHeader(lines, end)) {
+			end++;
+		}
+		while (end > index + 2 && !lines[end - 1].trim()) {
+			end--;
+		}
+		return end > index + 2 ? { kind: numpyKind, start: index + 2, end } : undefined;
+	}
+
+	return undefined;
+}
+
+function isNumpyHeader(lines: readonly string[], index: number): boolean {
+	return /^\s*[A-Za-z][A-Za-z ]*\s*$/.test(lines[index]) && /^\s*-{3,}\s*$/.test(lines[index + 1] ?? '');
+}
+
+/**
+ * Get the index of the closing fence of the code block that the markdown starts with, or -1 if it doesn't start with one.
+ */
+function getLeadingCodeBlockEnd(lines: readonly string[]): number {
+	let start = 0;
+	while (start < lines.length && !lines[start].trim()) {
+		start++;
+	}
+
+	const fence = start < lines.length ? getFenceStart(lines[start]) : undefined;
+	if (!fence) {
+		return -1;
+	}
+
+	for (let i = start + 1; i < lines.length; i++) {
+		if (isFenceEnd(lines[i], fence)) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+function getFenceStart(line: string): string | undefined {
+	return line.match(/^ {0,3}(`{3,}|~{3,})/)?.[1];
+}
+
+function isFenceEnd(line: string, fence: string): boolean {
+	const match = line.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+	return !!match && match[1][0] === fence[0] && match[1].length >= fence.length;
+}
+
+function getIndent(line: string): number {
+	return line.match(/^\s*/)![0].length;
+}
+
+function dedent(lines: readonly string[]): string[] {
+	const indent = Math.min(...lines.filter(line => line.trim()).map(getIndent));
+	return lines.map(line => line.slice(Math.min(indent, getIndent(line))));
+}
@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { RenderedDocumentation, Renderer, RenderPart } from './renderer';
+
+export interface CachedDocumentation {
+	readonly document: vscode.TextDocument;
+	readonly parts: readonly RenderPart[];
+
+	/** Dropped when the theme changes, in which case the parts must be rendered again */
+	rendered?: RenderedDocumentation;
+}
+
+export interface CacheStatistics {
+	readonly size: number;
+	readonly maxSize: number;
+	readonly hits: number;
+	readonly misses: number;
+}
+
+/**
+ * Least recently used cache of hover documentation, shared by all documentation views.
+ */
+export class DocumentationCache {
+
+	private readonly _disposables: vscode.Disposable[] = [];
+
+	// Maps preserve insertion order, so the first entry is always the least recently used one
+	private readonly _entries = new Map<string, CachedDocumentation>();
+
+	private _hits = 0;
+	private _misses = 0;
+
+	constructor(
+		private readonly _maxSize: number,
+		renderer: Renderer,
+	) {
+		// Must be registered before any views start re-rendering in response to the same event
+		renderer.needsRender(() => {
+			this.clearRendered();
+		}, null, this._disposables);
+
+		// An edit can also change the docs of symbols that other documents use, such as by changing a doc comment or a signature
+		vscode.workspace.onDidChangeTextDocument(e => {
+			if (e.contentChanges.length) {
+				this.deleteLanguage(e.document.languageId);
+			}
+		}, null, this._disposables);
+
+		vscode.workspace.onDidCloseTextDocument(document => {
+			this.deleteDocument(document.uri);
+		}, null, this._disposables);
+
+		// Docs can include a section with the problems in the document
+		vscode.languages.onDidChangeDiagnostics(e => {
+			for (const uri of e.uris) {
+				this.deleteDocument(uri);
+			}
+		}, null, this._disposables);
+
+		vscode.workspace.onDidChangeConfiguration(e => {
+			if (e.affectsConfiguration('docsView')) {
+				this.clear();
+			}
+		}, null, this._disposables);
+	}
+
+	dispose() {
+		this.clear();
+
+		let item: vscode.Disposable | undefined;
+		while ((item = this._disposables.pop())) {
+			item.dispose();
+		}
+	}
+
+	public get statistics(): CacheStatistics {
+		return {
+			size: this._entries.size,
+			maxSize: this._maxSize,
+			hits: this._hits,
+			misses: this._misses,
+		};
+	}
+
+	public get(key: string): CachedDocumentation | undefined {
+		const entry = this._entries.get(key);
+		if (!entry) {
+			++this._misses;
+			return undefined;
+		}
+
+		++this._hits;
+
+		// Move to the end to mark as most recently used
+		this._entries.delete(key);
+		this._entries.set(key, entry);
+		return entry;
+	}
+
+	public set(key: string, entry: CachedDocumentation): void {
+		this._entries.delete(key);
+		this._entries.set(key, entry);
+
+		while (this._entries.size > this._maxSize) {
+			const oldest = this._entries.keys().next().value;
+			this._entries.delete(oldest);
+		}
+	}
+
+	public clear(): void {
+		this._entries.clear();
+	}
+
+	private clearRendered(): void {
+		for (const entry of this._entries.values()) {
+			entry.rendered = undefined;
+		}
+	}
+
+	private deleteLanguage(languageId: string): void {
+		for (const [key, entry] of this._entries) {
+			if (entry.document.languageId === languageId) {
+				this._entries.delete(key);
+			}
+		}
+	}
+
+	private deleteDocument(uri: vscode.Uri): void {
+		const uriString = uri.toString();
+		for (const [key, entry] of this._entries) {
+			if (entry.document.uri.toString() === uriString) {
+				this._entries.delete(key);
+			}
+		}
+	}
+}
+
+/**
+ * Create the cache key for the documentation at a position.
+ *
+ * Positions on the same word share a key, unless `includePosition` is set.
+ */
+export function getDocumentationCacheKey(document: vscode.TextDocument, position: vscode.Position, includePosition: boolean): string {
+	const wordRange = document.getWordRangeAtPosition(position);
+	const location = wordRange && !includePosition
+		? `${wordRange.start.line}:${wordRange.start.character}-${wordRange.end.line}:${wordRange.end.character}`
+		: `${position.line}:${position.character}`;
+	return `${document.uri.toString()}@${document.version}#${location}`;
+}
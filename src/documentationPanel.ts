@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { ContentProviders } from './contentProviders';
+import { DocumentationCache } from './documentationCache';
+import { DocumentationView } from './documentationView';
+import { HistoryEntry } from './history';
+import { Renderer } from './renderer';
+
+/**
+ * Manages documentation shown in editor tabs.
+ */
+export class DocumentationPanels {
+
+	public static readonly viewType = 'docsView.documentationEditor';
+
+	public static readonly id = 'editorPanel';
+
+	private readonly _panels = new Map<vscode.WebviewPanel, DocumentationView>();
+
+	private _active?: DocumentationView;
+
+	private readonly _onDidShowEntry = new vscode.EventEmitter<HistoryEntry>();
+
+	/**
+	 * Fired when any of the editor tabs shows documentation.
+	 */
+	public readonly onDidShowEntry = this._onDidShowEntry.event;
+
+	constructor(
+		private readonly _extensionUri: vscode.Uri,
+		private readonly _renderer: Renderer,
+		private readonly _cache: DocumentationCache,
+		private readonly _contentProviders: ContentProviders,
+	) { }
+
+	dispose() {
+		for (const panel of this._panels.keys()) {
+			panel.dispose();
+		}
+		this._panels.clear();
+		this._onDidShowEntry.dispose();
+	}
+
+	/**
+	 * The documentation shown in the currently focused editor tab, if any.
+	 */
+	public get active(): DocumentationView | undefined {
+		return this._active;
+	}
+
+	/**
+	 * Open a new editor tab, optionally showing an entry as a pinned tab.
+	 */
+	public open(entry: HistoryEntry | undefined) {
+		const panel = vscode.window.createWebviewPanel(
+			DocumentationPanels.viewType,
+			getPanelTitle(entry?.symbol, undefined),
+			{ viewColumn: vscode.ViewColumn.Beside, preserveFocus: true });
+
+		const view: DocumentationView = new DocumentationView(this._extensionUri, this._renderer, this._cache, this._contentProviders, {
+			id: DocumentationPanels.id,
+			progressLocation: vscode.ProgressLocation.Window,
+			keepContentWithoutEditor: true,
+			isActive: () => this._active === view,
+		});
+		this._panels.set(panel, view);
+
+		view.onDidShowEntry(entry => this._onDidShowEntry.fire(entry));
+
+		panel.onDidChangeViewState(() => {
+			if (panel.active) {
+				this._active = view;
+				view.updateContext();
+			} else if (this._active === view) {
+				this._active = undefined;
+			}
+		});
+
+		panel.onDidDispose(() => {
+			if (this._active === view) {
+				this._active = undefined;
+			}
+			this._panels.delete(panel);
+			view.dispose();
+		});
+
+		// Editor tabs have no description, so it is shown in the title along with the shown symbol
+		let title: string | undefined;
+		let description: string | undefined;
+		view.attach({
+			webview: panel.webview,
+			setDescription: newDescription => {
+				description = newDescription;
+				panel.title = getPanelTitle(title, description);
+			},
+			setTitle: newTitle => {
+				title = newTitle;
+				panel.title = getPanelTitle(title, description);
+			},
+		});
+
+		if (entry) {
+			view.pinEntry(entry);
+		}
+	}
+}
+
+function getPanelTitle(title: string | undefined, description: string | undefined): string {
+	const panelTitle = title ? `Documentation: ${title}` : 'Documentation';
+	return description ? `${panelTitle} ${description}` : panelTitle;
+}
@@ -0,0 +1,1184 @@
+import * as vscode from 'vscode';
+import { ContentProviders } from './contentProviders';
+import { getDiagnosticsSection } from './diagnostics';
+import { DocumentationCache, getDocumentationCacheKey } from './documentationCache';
+import { getEntryKey, History, HistoryEntry, maxPersistedHtmlLength, persistDelay } from './history';
+import { getDocumentFolder, getImageRoots, isRemoteImagesBlocked, resolveImages } from './images';
+import { openLink } from './links';
+import { logger } from './logger';
+import { PinnedEntries } from './pinnedEntries';
+import { ExtensionMessage, protocolVersion, WebviewMessage, WebviewUiState } from './protocol';
+import { startRequest } from './requestLog';
+import { RenderedDocumentation, Renderer, RenderPart, RenderProgress } from './renderer';
+import { getDefinitionSection, getSectionsConfiguration, getSignatureHelpSection, SectionsConfiguration } from './sections';
+import { arrangeParts, defaultSourcesConfiguration, getSourcesConfiguration, SourcesConfiguration } from './sources';
+import { getSymbolDetail, getSymbolPosition, searchWorkspaceSymbols } from './symbolSearch';
+import { affectsViewSettings, getViewSettings } from './viewSettings';
+
+enum UpdateMode {
+	Live = 'live',
+	Sticky = 'sticky',
+	Debounced = 'debounced',
+	Manual = 'manual',
+}
+
+export interface DocumentationViewOptions {
+	/**
+	 * Identifies the instance in settings, commands and context keys, for example `documentationView`.
+	 */
+	readonly id: string;
+
+	readonly progressLocation: vscode.ProgressLocation | { readonly viewId: string };
+
+	/**
+	 * Keep showing the current docs when there is no active text editor.
+	 *
+	 * Editor tabs need this since focusing them clears the active text editor.
+	 */
+	readonly keepContentWithoutEditor?: boolean;
+
+	/**
+	 * Should this instance currently drive the context keys for its `id`? Defaults to always.
+	 */
+	readonly isActive?: () => boolean;
+}
+
+export interface DocumentationViewHost {
+	readonly webview: vscode.Webview;
+	setDescription(description: string | undefined): void;
+
+	/** Called with the title of the shown docs whenever they change, for hosts that show it */
+	setTitle?(title: string | undefined): void;
+}
+
+/**
+ * The state and rendering logic of a single documentation webview.
+ *
+ * Each instance tracks its own history, pinned entries, and update mode.
+ */
+export class DocumentationView {
+
+	private static readonly maxHistorySize = 50;
+
+	private readonly _disposables: vscode.Disposable[] = [];
+	private readonly _hostDisposables: vscode.Disposable[] = [];
+
+	private readonly _history: History;
+
+	private _host?: DocumentationViewHost;
+	private _currentCacheKey: CacheKey = cacheKeyNone;
+	private _loading?: { cts: vscode.CancellationTokenSource };
+	private _renderingPins?: vscode.CancellationTokenSource;
+
+	private readonly _pins: PinnedEntries;
+	private _activePin?: number;
+
+	/** Last content shown in the live "current" slot */
+	private _currentMessage?: ContentMessage;
+
+	/** If the live slot shows the docs at the cursor, rather than docs from the api or a searched symbol */
+	private _isShowingCursorDocs = true;
+
+	private readonly _onDidShowEntry = new vscode.EventEmitter<HistoryEntry>();
+
+	/**
+	 * Fired when documentation is shown, either in the live slot or as a pinned tab.
+	 */
+	public readonly onDidShowEntry = this._onDidShowEntry.event;
+
+	/** Ui state that the webview reported, such as which sections were collapsed */
+	private _uiState: WebviewUiState = { collapsedSources: [] };
+
+	/** Folder outside of the workspace of the last document whose docs showed, which images may be loaded from */
+	private _documentFolder?: vscode.Uri;
+
+	private _searchResults: readonly vscode.SymbolInformation[] = [];
+	private _searching?: { cts: vscode.CancellationTokenSource };
+
+	/** Update mode for the document that the current docs were loaded for */
+	private _updateMode = UpdateMode.Live;
+	private _debounceTimer?: ReturnType<typeof setTimeout>;
+	private _saveViewStateTimer?: ReturnType<typeof setTimeout>;
+	private _sections: SectionsConfiguration = { signatureHelp: false, definition: false, typeDefinition: false, diagnostics: false };
+	private _sources: SourcesConfiguration = defaultSourcesConfiguration;
+
+	constructor(
+		private readonly _extensionUri: vscode.Uri,
+		private readonly _renderer: Renderer,
+		private readonly _cache: DocumentationCache,
+		private readonly _contentProviders: ContentProviders,
+		private readonly _options: DocumentationViewOptions,
+		private readonly _workspaceState?: vscode.Memento,
+	) {
+		this._history = new History(DocumentationView.maxHistorySize, `docsView.${_options.id}.history`, _workspaceState);
+		this._pins = new PinnedEntries(`docsView.${_options.id}.pinnedEntries`, _workspaceState);
+		this.restoreViewState();
+		this._uiState = _workspaceState?.get<WebviewUiState>(this.uiStateKey) ?? this._uiState;
+
+		this._disposables.push(this._onDidShowEntry);
+
+		vscode.window.onDidChangeActiveTextEditor(() => {
+			this.onDidChangeCursor();
+		}, null, this._disposables);
+
+		vscode.window.onDidChangeTextEditorSelection(() => {
+			this.onDidChangeCursor();
+		}, null, this._disposables);
+
+		// The highlighted code has the colors of the old theme, including in docs that were not loaded for the cursor
+		this._renderer.needsRender(() => {
+			this.renderAgain();
+			this.renderPinsAgain();
+		}, undefined, this._disposables);
+
+		vscode.languages.onDidChangeDiagnostics(e => {
+			const uri = this._history.isNavigating ? this._history.current?.uri : vscode.window.activeTextEditor?.document.uri;
+			if (!this._sections.diagnostics || !uri || this.getUpdateMode() === UpdateMode.Manual) {
+				return;
+			}
+
+			if (e.uris.some(changed => changed.toString() === uri.toString())) {
+				this.renderAgain();
+			}
+		}, null, this._disposables);
+
+		vscode.workspace.onDidChangeConfiguration(e => {
+			this.updateConfiguration();
+
+			if (affectsViewSettings(e)) {
+				this.postSettings();
+			}
+
+			if (e.affectsConfiguration('docsView.images')) {
+				this.reload();
+			}
+		}, null, this._disposables);
+
+		vscode.workspace.onDidChangeWorkspaceFolders(() => {
+			this.reload();
+		}, null, this._disposables);
+
+		this.updateConfiguration();
+		this.update();
+	}
+
+	dispose() {
+		this.detach();
+		clearTimeout(this._debounceTimer);
+		this._renderingPins?.cancel();
+		if (this._saveViewStateTimer) {
+			clearTimeout(this._saveViewStateTimer);
+			this.writeViewState();
+		}
+		this._history.dispose();
+
+		let item: vscode.Disposable | undefined;
+		while ((item = this._disposables.pop())) {
+			item.dispose();
+		}
+	}
+
+	public get id(): string {
+		return this._options.id;
+	}
+
+	/**
+	 * Start rendering into a webview.
+	 */
+	public attach(host: DocumentationViewHost) {
+		this.detach();
+		this._host = host;
+
+		host.webview.onDidReceiveMessage((message: WebviewMessage) => {
+			switch (message.type) {
+				case 'ready':
+					if (message.version !== protocolVersion) {
+						// The webview is still running the script of another version of the extension
+						this.reload();
+						return;
+					}
+					this.postMessage({ type: 'state', state: this._uiState });
+					break;
+
+				case 'state':
+					this._uiState = message.state;
+					this._workspaceState?.update(this.uiStateKey, message.state);
+					break;
+
+				case 'focusTab':
+					this.focusTab(message.id ?? undefined);
+					break;
+
+				case 'closeTab':
+					this.closeTab(message.id);
+					break;
+
+				case 'openLink':
+					openLink(message.href, this.getShownEntry()?.uri).catch(e => {
+						this.showError(`Could not open '${message.href}'`, e);
+					});
+					break;
+
+				case 'copy':
+					vscode.env.clipboard.writeText(message.text);
+					break;
+
+				case 'search':
+					this.search(message.query).catch(e => {
+						this.showError('Could not search workspace symbols', e);
+					});
+					break;
+
+				case 'back':
+					this.back();
+					break;
+
+				case 'forward':
+					this.forward();
+					break;
+
+				case 'focusEditor':
+					vscode.commands.executeCommand('workbench.action.focusActiveEditorGroup');
+					break;
+
+				case 'error':
+					logger.error(`[${this.id}] ${message.message}`);
+					break;
+
+				case 'selectSymbol': {
+					const symbol = this._searchResults[message.index];
+					if (symbol) {
+						this.showSymbol(symbol).catch(e => {
+							this.showError(`Could not show the documentation for '${symbol.name}'`, e);
+						});
+					}
+					break;
+				}
+			}
+		}, null, this._hostDisposables);
+
+		this.setWebviewContent(host.webview);
+
+		this.updateContext();
+		this.refresh();
+	}
+
+	/**
+	 * Recreate the webview's html and show the same content again, such as after the image settings have changed.
+	 */
+	private reload() {
+		if (!this._host) {
+			return;
+		}
+
+		this.setWebviewContent(this._host.webview);
+		this.postSettings();
+		this.postTabs();
+		if (this._activePin !== undefined) {
+			this.showActivePin();
+		} else if (this._currentMessage) {
+			this.postContent(this._currentMessage);
+		}
+	}
+
+	/**
+	 * Set the webview's options and html. This resets the webview, so all state must be sent to it again afterwards.
+	 */
+	private setWebviewContent(webview: vscode.Webview) {
+		webview.options = {
+			enableScripts: true,
+			localResourceRoots: this.getResourceRoots(),
+		};
+		webview.html = this._getHtmlForWebview(webview);
+	}
+
+	private getResourceRoots(): vscode.Uri[] {
+		return [
+			vscode.Uri.joinPath(this._extensionUri, 'media'),
+			vscode.Uri.joinPath(this._extensionUri, 'dist', 'webview'),
+			vscode.Uri.joinPath(this._extensionUri, 'node_modules', 'mermaid', 'dist'),
+			...(vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri),
+			...(this._documentFolder ? [this._documentFolder] : []),
+		];
+	}
+
+	public detach() {
+		this._host = undefined;
+
+		let item: vscode.Disposable | undefined;
+		while ((item = this._hostDisposables.pop())) {
+			item.dispose();
+		}
+	}
+
+	/**
+	 * Re-send all content to the webview, such as after it has been re-shown.
+	 */
+	public refresh() {
+		this.postSettings();
+		this.postTabs();
+		if (this._history.isNavigating && this._history.current) {
+			this.showEntry(this._history.current);
+		} else if (this.getUpdateMode() === UpdateMode.Manual || !this._isShowingCursorDocs) {
+			// Loading the docs at the cursor would replace docs that were shown on purpose
+			if (this._currentMessage) {
+				this.postContent(this._currentMessage);
+			}
+		} else {
+			this.update(/* force */ true);
+		}
+		this.showActivePin();
+	}
+
+	/**
+	 * Load the docs at the current cursor position, regardless of the update mode.
+	 */
+	public showDocsForCursor() {
+		clearTimeout(this._debounceTimer);
+		this.update(/* force */ true);
+	}
+
+	/**
+	 * Update the context keys for this instance's `id`.
+	 */
+	public updateContext() {
+		this.updatePinnedContext();
+		this.updateHistoryContext();
+	}
+
+	/**
+	 * Pin the documentation currently shown in the live slot as a new tab.
+	 */
+	public pin() {
+		if (this._activePin !== undefined) {
+			return;
+		}
+
+		const entry = this._history.current;
+		if (!entry || this._currentMessage?.type !== 'update') {
+			return;
+		}
+
+		this.pinEntry(entry);
+	}
+
+	/**
+	 * Pin an entry, such as one shown in a different instance, and show it.
+	 */
+	public pinEntry(entry: HistoryEntry) {
+		const pinned = this._pins.add(entry);
+		this.focusTab(pinned.id);
+	}
+
+	/**
+	 * Close the active pinned tab and return to the live slot.
+	 */
+	public unpin() {
+		if (this._activePin !== undefined) {
+			this.closeTab(this._activePin);
+		}
+	}
+
+	/**
+	 * Show a pinned tab, or the live slot if `id` is undefined.
+	 */
+	public focusTab(id: number | undefined) {
+		if (id !== undefined && !this._pins.get(id)) {
+			return;
+		}
+
+		this._activePin = id;
+		this.saveViewState();
+		this.updatePinnedContext();
+		this.updateTitle();
+		this.postTabs();
+
+		if (id === undefined) {
+			if (this._currentMessage) {
+				this.postContent(this._currentMessage);
+			} else {
+				this.update(/* force */ true);
+			}
+		} else {
+			this.showActivePin();
+
+			const entry = this._pins.get(id);
+			if (entry) {
+				this._onDidShowEntry.fire(entry);
+			}
+		}
+	}
+
+	public closeTab(id: number) {
+		if (!this._pins.remove(id)) {
+			return;
+		}
+
+		if (this._activePin === id) {
+			this.focusTab(undefined);
+		} else {
+			this.postTabs();
+		}
+	}
+
+	public back() {
+		const entry = this._history.back();
+		if (entry) {
+			this.showEntry(entry);
+		}
+		this.updateHistoryContext();
+	}
+
+	public forward() {
+		const entry = this._history.forward();
+		if (entry) {
+			this.showEntry(entry);
+		}
+		this.updateHistoryContext();
+	}
+
+	/**
+	 * Scroll the docs by about a page, without moving focus to the view.
+	 */
+	public scroll(direction: 'up' | 'down') {
+		this.postMessage({ type: 'scroll', direction });
+	}
+
+	private async search(query: string) {
+		this._searching?.cts.cancel();
+		const searchEntry = { cts: new vscode.CancellationTokenSource() };
+		this._searching = searchEntry;
+
+		let results: vscode.SymbolInformation[];
+		try {
+			results = await searchWorkspaceSymbols(query);
+		} finally {
+			if (this._searching === searchEntry) {
+				this._searching = undefined;
+			}
+		}
+		if (searchEntry.cts.token.isCancellationRequested) {
+			return;
+		}
+
+		this._searchResults = results;
+		this.postMessage({
+			type: 'searchResults',
+			results: results.map(symbol => ({
+				name: symbol.name,
+				kind: vscode.SymbolKind[symbol.kind],
+				detail: getSymbolDetail(symbol),
+			})),
+		});
+	}
+
+	/**
+	 * Show the documentation for a symbol at its declaration, without opening or moving to it.
+	 */
+	private async showSymbol(symbol: vscode.SymbolInformation) {
+		if (this._loading) {
+			this._loading.cts.cancel();
+		}
+
+		const loadingEntry = { cts: new vscode.CancellationTokenSource() };
+		this._loading = loadingEntry;
+
+		let entry: HistoryEntry | undefined;
+		try {
+			// Fails if the file was deleted since the search
+			const document = await vscode.workspace.openTextDocument(symbol.location.uri);
+			entry = await this.getEntry(document, getSymbolPosition(document, symbol), loadingEntry.cts.token);
+		} catch (e) {
+			if (this._loading === loadingEntry) {
+				this._loading = undefined;
+			}
+			throw e;
+		}
+		if (loadingEntry.cts.token.isCancellationRequested || this._loading !== loadingEntry) {
+			return;
+		}
+		this._loading = undefined;
+
+		if (!entry) {
+			this._isShowingCursorDocs = false;
+			this.postToCurrentSlot({ type: 'noContent', body: `No documentation found for '${symbol.name}'` });
+			return;
+		}
+
+		this.showNewEntry(entry);
+	}
+
+	/**
+	 * Show documentation that was not loaded for the cursor position, such as documentation provided through the api.
+	 *
+	 * @param pin Show the entry as a new pinned tab instead of in the live slot.
+	 */
+	public showDocumentation(entry: HistoryEntry, pin: boolean) {
+		if (pin) {
+			this.pinEntry(entry);
+			return;
+		}
+
+		if (this._loading) {
+			this._loading.cts.cancel();
+			this._loading = undefined;
+		}
+		this.showNewEntry(entry);
+	}
+
+	/**
+	 * Add an entry to the history and show it in the live slot, switching away from any pinned tab.
+	 */
+	private showNewEntry(entry: HistoryEntry) {
+		this._isShowingCursorDocs = false;
+		this._history.push(entry);
+		this.updateHistoryContext();
+
+		if (this._activePin !== undefined) {
+			this._activePin = undefined;
+			this.updatePinnedContext();
+			this.updateTitle();
+			this.postTabs();
+		}
+		this.postEntry(entry);
+	}
+
+	/**
+	 * Render the docs in the live slot again, such as after the theme changed. The docs at the cursor are loaded again,
+	 * unless the update mode is manual or the user went back to an older entry. That entry is then replaced in place,
+	 * so that the entries after it are kept.
+	 */
+	private renderAgain() {
+		if (this._history.isNavigating) {
+			this.renderCurrentEntryAgain();
+		} else if (this.getUpdateMode() === UpdateMode.Manual) {
+			if (this._currentMessage?.type === 'update') {
+				this.renderCurrentEntryAgain();
+			}
+		} else {
+			this.update(/* force */ true);
+		}
+	}
+
+	private async renderCurrentEntryAgain() {
+		const entry = this._history.current;
+		if (!entry) {
+			return;
+		}
+
+		if (this._loading) {
+			this._loading.cts.cancel();
+		}
+		const loadingEntry = { cts: new vscode.CancellationTokenSource() };
+		this._loading = loadingEntry;
+
+		const updated = await this.renderEntryAgain(entry, loadingEntry.cts.token);
+		if (this._loading !== loadingEntry) {
+			return;
+		}
+		this._loading = undefined;
+
+		if (updated && this._history.current === entry) {
+			this._history.replaceCurrent(updated);
+			this.postEntry(updated);
+		}
+	}
+
+	private async renderPinsAgain() {
+		this._renderingPins?.cancel();
+		const cts = new vscode.CancellationTokenSource();
+		this._renderingPins = cts;
+
+		for (const pin of this._pins.entries) {
+			const updated = await this.renderEntryAgain(pin, cts.token);
+			if (cts.token.isCancellationRequested) {
+				return;
+			}
+
+			if (updated && this._pins.replace(updated) && this._activePin === updated.id) {
+				this.showActivePin();
+			}
+		}
+	}
+
+	/**
+	 * Render the docs of an entry again from its document.
+	 *
+	 * @returns The updated entry, or undefined to keep the old docs, such as when the symbol is no longer at the entry's position.
+	 */
+	private async renderEntryAgain<T extends HistoryEntry>(entry: T, token: vscode.CancellationToken): Promise<T | undefined> {
+		try {
+			const document = await vscode.workspace.openTextDocument(entry.uri);
+			const wordRange = document.getWordRangeAtPosition(entry.position);
+			if ((wordRange ? document.getText(wordRange) : '') !== entry.symbol) {
+				return undefined;
+			}
+
+			const rendered = await this.getRenderedDocumentation(document, entry.position, token);
+			if (token.isCancellationRequested || !rendered?.html.length) {
+				return undefined;
+			}
+			return { ...entry, markdown: rendered.markdown, html: rendered.html };
+		} catch (e) {
+			logger.warn(`[${this.id}] Could not render the docs for '${entry.symbol}' again: ${e}`);
+			return undefined;
+		}
+	}
+
+	private showEntry(entry: HistoryEntry) {
+		if (this._loading) {
+			this._loading.cts.cancel();
+			this._loading = undefined;
+		}
+
+		this.postEntry(entry);
+	}
+
+	private postEntry(entry: HistoryEntry) {
+		this.postToCurrentSlot({ type: 'update', body: entry.html, baseUri: entry.uri, key: getEntryKey(entry) });
+		this._onDidShowEntry.fire(entry);
+	}
+
+	public getShownEntry(): HistoryEntry | undefined {
+		if (this._activePin !== undefined) {
+			return this._pins.get(this._activePin);
+		}
+		return this._currentMessage?.type === 'update' ? this._history.current : undefined;
+	}
+
+	private showActivePin() {
+		const entry = this._activePin !== undefined ? this._pins.get(this._activePin) : undefined;
+		if (entry) {
+			this.postContent({ type: 'update', body: entry.html, baseUri: entry.uri, key: getEntryKey(entry) });
+		}
+	}
+
+	/**
+	 * Record new content for the live slot, only displaying it if no pinned tab is active.
+	 */
+	private postToCurrentSlot(message: ContentMessage) {
+		if (message.type === 'noContent' && this._updateMode === UpdateMode.Sticky && this._currentMessage) {
+			// Sticky mode keeps showing the last documentation
+			return;
+		}
+
+		this._currentMessage = message;
+		this.saveViewState();
+		if (this._activePin === undefined) {
+			this.postContent(message);
+		}
+	}
+
+	private postContent(message: ContentMessage) {
+		if (!this._host) {
+			return;
+		}
+
+		this.updateTitle();
+		if (message.type === 'noContent') {
+			this.postMessage({ type: message.type, body: message.body, updateMode: this._updateMode });
+			return;
+		}
+
+		const { html, hasLocalImages } = resolveImages(message.body, message.baseUri, this._host.webview, getImageRoots(message.baseUri));
+
+		// The webview can only load images from another folder after being recreated, so this is only done for docs that show local images
+		const documentFolder = getDocumentFolder(message.baseUri);
+		if (hasLocalImages && documentFolder && documentFolder.toString() !== this._documentFolder?.toString()) {
+			this._documentFolder = documentFolder;
+			this.setWebviewContent(this._host.webview);
+			this.postSettings();
+			this.postTabs();
+		}
+
+		this.postMessage({ type: message.type, body: html, key: message.key, updateMode: this._updateMode });
+	}
+
+	/**
+	 * Log a failure of something the user asked for and tell them in the view.
+	 */
+	private showError(message: string, error: unknown) {
+		logger.error(`[${this.id}] ${message}`, error);
+		this.postMessage({ type: 'error', message: `${message}: ${error instanceof Error ? error.message : String(error)}` });
+	}
+
+	private postMessage(message: ExtensionMessage) {
+		this._host?.webview.postMessage(message);
+	}
+
+	private get viewStateKey(): string {
+		return `docsView.${this.id}.viewState`;
+	}
+
+	private get uiStateKey(): string {
+		return `docsView.${this.id}.uiState`;
+	}
+
+	/**
+	 * Remember the live slot's content and the active pinned tab, so that they can be shown again right away after a reload.
+	 */
+	private saveViewState() {
+		if (!this._workspaceState) {
+			return;
+		}
+
+		clearTimeout(this._saveViewStateTimer);
+		this._saveViewStateTimer = setTimeout(() => this.writeViewState(), persistDelay);
+	}
+
+	private writeViewState() {
+		this._saveViewStateTimer = undefined;
+		if (!this._workspaceState) {
+			return;
+		}
+
+		// Docs that are too large to persist are loaded again instead
+		const message = this._currentMessage && this._currentMessage.body.length <= maxPersistedHtmlLength ? this._currentMessage : undefined;
+		const data: SerializedViewState = {
+			activePin: this._activePin,
+			current: message && {
+				type: message.type,
+				body: message.body,
+				baseUri: message.baseUri?.toString(),
+				key: message.key,
+			},
+		};
+		this._workspaceState.update(this.viewStateKey, data);
+	}
+
+	private restoreViewState() {
+		const data = this._workspaceState?.get<SerializedViewState>(this.viewStateKey);
+		if (!data) {
+			return;
+		}
+
+		if (data.activePin !== undefined && this._pins.get(data.activePin)) {
+			this._activePin = data.activePin;
+		}
+
+		if (data.current) {
+			this._currentMessage = {
+				type: data.current.type,
+				body: data.current.body,
+				baseUri: data.current.baseUri ? vscode.Uri.parse(data.current.baseUri) : undefined,
+				key: data.current.key,
+			};
+		}
+	}
+
+	private postSettings() {
+		this.postMessage({
+			type: 'settings',
+			settings: getViewSettings(),
+		});
+	}
+
+	private postTabs() {
+		this.postMessage({
+			type: 'tabs',
+			tabs: this._pins.entries.map(entry => ({
+				id: entry.id,
+				title: getTabTitle(entry),
+			})),
+			active: this._activePin ?? null,
+		});
+	}
+
+	private updateHistoryContext() {
+		if (this._options.isActive && !this._options.isActive()) {
+			return;
+		}
+		vscode.commands.executeCommand('setContext', `docsView.${this.id}.canGoBack`, this._history.canGoBack);
+		vscode.commands.executeCommand('setContext', `docsView.${this.id}.canGoForward`, this._history.canGoForward);
+	}
+
+	private updatePinnedContext() {
+		if (this._options.isActive && !this._options.isActive()) {
+			return;
+		}
+		vscode.commands.executeCommand('setContext', `docsView.${this.id}.isPinned`, this._activePin !== undefined);
+	}
+
+	private updateTitle() {
+		this._host?.setDescription(this._activePin !== undefined ? "(pinned)" : undefined);
+
+		const entry = this.getShownEntry();
+		this._host?.setTitle?.(entry ? getTabTitle(entry) : undefined);
+	}
+
+	private _getHtmlForWebview(webview: vscode.Webview) {
+		const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'dist', 'webview', 'main.js'));
+		const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'main.css'));
+
+		// Only loaded by the webview once documentation contains a diagram
+		const mermaidUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'node_modules', 'mermaid', 'dist', 'mermaid.min.js'));
+
+		const nonce = getNonce();
+
+		return /* html */`<!DOCTYPE html>
+			<html lang="en">
+			<head>
+				<meta charset="UTF-8">
+
+				<meta http-equiv="Content-Security-Policy" content="
+					default-src 'none';
+					style-src ${webview.cspSource} 'unsafe-inline';
+					script-src 'nonce-${nonce}';
+					img-src data: ${webview.cspSource}${isRemoteImagesBlocked() ? '' : ' https:'};
+					">
+
+				<meta name="viewport" content="width=device-width, initial-scale=1.0">
+
+				<link href="${styleUri}" rel="stylesheet">
+				
+				<title>Documentation View</title>
+			</head>
+			<body data-mermaid-uri="${mermaidUri}">
+				<div class="search" role="search">
+					<input id="search-input" type="search" placeholder="Search workspace symbols" aria-label="Search workspace symbols">
+					<ul id="search-results" class="search-results" hidden></ul>
+				</div>
+				<nav id="tabs" class="tabs" role="tablist" aria-label="Pinned documentation" hidden></nav>
+				<div id="find-widget" class="find-widget" role="search" aria-label="Find in documentation" hidden>
+					<input id="find-input" type="text" placeholder="Find" aria-label="Find">
+					<span id="find-count" class="find-count" aria-live="polite"></span>
+					<button id="find-previous" title="Previous Match (Shift+Enter)" aria-label="Previous match">↑</button>
+					<button id="find-next" title="Next Match (Enter)" aria-label="Next match">↓</button>
+					<button id="find-close" title="Close (Escape)" aria-label="Close">×</button>
+				</div>
+				<div id="error" class="error-message" role="alert" title="Dismiss" hidden></div>
+				<article id="main" tabindex="0" aria-label="Documentation"></article>
+				<div id="status" class="visually-hidden" role="status" aria-live="polite"></div>
+
+				<script nonce="${nonce}" src="${scriptUri}"></script>
+			</body>
+			</html>`;
+	}
+
+	private onDidChangeCursor() {
+		clearTimeout(this._debounceTimer);
+
+		const document = vscode.window.activeTextEditor?.document;
+		switch (this.getUpdateMode(document)) {
+			case UpdateMode.Manual:
+				return;
+
+			case UpdateMode.Debounced: {
+				const delay = vscode.workspace.getConfiguration('docsView', document).get<number>('debounceDelay', 300);
+				this._debounceTimer = setTimeout(() => this.update(), delay);
+				return;
+			}
+
+			default:
+				this.update();
+				return;
+		}
+	}
+
+	/**
+	 * Get the update mode for a document, which may be overridden per language.
+	 */
+	private getUpdateMode(document = vscode.window.activeTextEditor?.document): UpdateMode {
+		const config = vscode.workspace.getConfiguration('docsView', document);
+		return config.get<UpdateMode>(`${this.id}.updateMode`) || UpdateMode.Live;
+	}
+
+	private async update(ignoreCache = false) {
+		if (!this._host) {
+			return;
+		}
+
+		this._updateMode = this.getUpdateMode();
+
+		this.updateTitle();
+
+		if (!vscode.window.activeTextEditor && this._options.keepContentWithoutEditor) {
+			return;
+		}
+
+		// Signature help changes as the cursor moves between arguments, even if the word does not
+		const newCacheKey = createCacheKey(vscode.window.activeTextEditor, this._sections.signatureHelp);
+		if (!ignoreCache && cacheKeyEquals(this._currentCacheKey, newCacheKey)) {
+			return;
+		}
+
+		this._currentCacheKey = newCacheKey;
+
+		if (this._loading) {
+			this._loading.cts.cancel();
+			this._loading = undefined;
+		}
+
+		const loadingEntry = { cts: new vscode.CancellationTokenSource() };
+		this._loading = loadingEntry;
+
+		const updatePromise = (async () => {
+			const entry = await this.getEntryForActiveEditor(loadingEntry.cts.token);
+			if (loadingEntry.cts.token.isCancellationRequested) {
+				return;
+			}
+
+			if (this._loading !== loadingEntry) {
+				// A new entry has started loading since we started
+				return;
+			}
+			this._loading = undefined;
+			this._isShowingCursorDocs = true;
+
+			if (entry) {
+				this._history.push(entry);
+				this.updateHistoryContext();
+
+				this.postEntry(entry);
+			} else {
+				this.postToCurrentSlot({ type: 'noContent', body: 'No documentation found at current cursor position' });
+			}
+		})();
+
+		await Promise.race([
+			updatePromise,
+
+			// Don't show progress indicator right away, which causes a flash
+			new Promise<void>(resolve => setTimeout(resolve, 250)).then(() => {
+				if (loadingEntry.cts.token.isCancellationRequested) {
+					return;
+				}
+				return vscode.window.withProgress({ location: this._options.progressLocation }, () => updatePromise);
+			}),
+		]);
+	}
+
+	private async getEntryForActiveEditor(token: vscode.CancellationToken): Promise<HistoryEntry | undefined> {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			return undefined;
+		}
+
+		return this.getEntry(editor.document, editor.selection.active, token);
+	}
+
+	/**
+	 * Load the docs for the live slot. Docs with slow to highlight code blocks are already shown while they are highlighted.
+	 */
+	private async getEntry(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<HistoryEntry | undefined> {
+		const wordRange = document.getWordRangeAtPosition(position);
+		const symbol = wordRange ? document.getText(wordRange) : '';
+		const key = getEntryKey({ uri: document.uri, position, symbol });
+
+		// The partial docs are not recorded as the live slot's content, since they are replaced once highlighting finishes
+		const isShown = () => !token.isCancellationRequested && this._activePin === undefined;
+		const progress: RenderProgress = {
+			showUnhighlighted: html => {
+				if (isShown()) {
+					this.postContent({ type: 'update', body: html, baseUri: document.uri, key });
+				}
+			},
+			showCodeBlock: (index, html) => {
+				if (isShown()) {
+					this.postMessage({ type: 'codeBlock', key, index, html });
+				}
+			},
+		};
+
+		const rendered = await this.getRenderedDocumentation(document, position, token, progress);
+		if (!rendered?.html.length) {
+			return undefined;
+		}
+
+		const { markdown, html } = rendered;
+		return {
+			symbol,
+			uri: document.uri,
+			position,
+			markdown,
+			html,
+		};
+	}
+
+	private async getRenderedDocumentation(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken, progress?: RenderProgress): Promise<RenderedDocumentation | undefined> {
+		const request = startRequest(this.id, document, position);
+		try {
+			const key = getDocumentationCacheKey(document, position, this._sections.signatureHelp);
+			const cached = this._cache.get(key);
+			if (cached) {
+				// The cached parts must be rendered again after the theme changed
+				if (cached.rendered) {
+					request.finish('cached');
+					return cached.rendered;
+				}
+
+				// Highlighting stops once cancelled, so only complete renders are cached
+				const rendered = await this._renderer.renderParts(document.languageId, cached.parts, this._sources, progress, token);
+				if (!token.isCancellationRequested) {
+					cached.rendered = rendered;
+				}
+				request.finish('cached', { render: rendered.timings });
+				return rendered;
+			}
+
+			const allParts = await request.timeHovers(this.getPartsAtPosition(document, position, token));
+			if (token.isCancellationRequested) {
+				request.finish('cancelled');
+				return undefined;
+			}
+			if (!allParts.length) {
+				request.finish('noDocumentation');
+				return undefined;
+			}
+
+			const parts = arrangeParts(allParts, this._sources);
+			const rendered = await this._renderer.renderParts(document.languageId, parts, this._sources, progress, token);
+			if (token.isCancellationRequested) {
+				request.finish('cancelled', { render: rendered.timings });
+				return rendered;
+			}
+
+			if (parts.length) {
+				this._cache.set(key, { document, parts, rendered });
+			}
+			request.finish(rendered.html.length ? 'shown' : 'noDocumentation', { render: rendered.timings });
+			return rendered;
+		} catch (e) {
+			// Shown as if there were no docs, while the log and the diagnostics command tell why
+			request.finish('failed', { error: e });
+			return undefined;
+		}
+	}
+
+	/**
+	 * Get the hovers at a position, along with any of the enabled extra sections and the docs from registered content providers.
+	 */
+	private async getPartsAtPosition(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<RenderPart[]> {
+		const [signatureHelp, diagnostics, hovers, provided, definition, typeDefinition] = await Promise.all([
+			this._sections.signatureHelp ? getSignatureHelpSection(document, position) : undefined,
+			this._sections.diagnostics ? getDiagnosticsSection(document, position) : undefined,
+			vscode.commands.executeCommand<vscode.Hover[]>('vscode.executeHoverProvider', document.uri, position),
+			this._contentProviders.provide(document, position, token),
+			this._sections.definition ? getDefinitionSection('vscode.executeDefinitionProvider', 'Go to definition', document, position) : undefined,
+			this._sections.typeDefinition ? getDefinitionSection('vscode.executeTypeDefinitionProvider', 'Go to type definition', document, position) : undefined,
+		]);
+
+		const getSectionParts = (source: string, section: vscode.MarkdownString | undefined) =>
+			section ? this._renderer.getParts([new vscode.Hover(section)], source) : [];
+
+		return [
+			...getSectionParts('signatureHelp', signatureHelp),
+			...getSectionParts('diagnostics', diagnostics),
+			...(provided.replace ? [] : this._renderer.getParts(hovers ?? [])),
+			...provided.sources.flatMap(({ source, hovers }) => this._renderer.getParts(hovers, source)),
+			...getSectionParts('definition', definition),
+			...getSectionParts('typeDefinition', typeDefinition),
+		];
+	}
+
+	private updateConfiguration() {
+		const config = vscode.workspace.getConfiguration('docsView');
+		this._sections = getSectionsConfiguration(config);
+		this._sources = getSourcesConfiguration(config);
+	}
+}
+
+interface ContentMessage {
+	readonly type: 'update' | 'noContent';
+	readonly body: string;
+
+	/** Uri of the document that the content was rendered for. Relative images are resolved against it. */
+	readonly baseUri?: vscode.Uri;
+
+	/** Identifies the symbol that the content is for. The webview uses this to restore the scroll position. */
+	readonly key?: string;
+}
+
+interface SerializedViewState {
+	readonly activePin?: number;
+	readonly current?: {
+		readonly type: ContentMessage['type'];
+		readonly body: string;
+		readonly baseUri?: string;
+		readonly key?: string;
+	};
+}
+
+function getTabTitle(entry: HistoryEntry): string {
+	return entry.symbol || vscode.workspace.asRelativePath(entry.uri);
+}
+
+function getNonce() {
+	let text = '';
+	const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+	for (let i = 0; i < 32; i++) {
+		text += possible.charAt(Math.floor(Math.random() * possible.length));
+	}
+	return text;
+}
+
+
+export type CacheKey = typeof cacheKeyNone | DocumentCacheKey;
+
+
+const cacheKeyNone = { type: 'none' } as const;
+
+class DocumentCacheKey {
+	readonly type = 'document';
+
+	constructor(
+		public readonly url: vscode.Uri,
+		public readonly version: number,
+		public readonly wordRange: vscode.Range | undefined,
+		public readonly position?: vscode.Position,
+	) { }
+
+	public equals(other: DocumentCacheKey): boolean {
+		if (this.url.toString() !== other.url.toString()) {
+			return false;
+		}
+
+		if (this.version !== other.version) {
+			return false;
+		}
+
+		if (this.position !== other.position && !(this.position && other.position?.isEqual(this.position))) {
+			return false;
+		}
+
+		if (other.wordRange === this.wordRange) {
+			return true;
+		}
+
+		if (!other.wordRange || !this.wordRange) {
+			return false;
+		}
+
+		return this.wordRange.isEqual(other.wordRange);
+	}
+}
+
+export function cacheKeyEquals(a: CacheKey, b: CacheKey): boolean {
+	if (a === b) {
+		return true;
+	}
+
+	if (a.type !== b.type) {
+		return false;
+	}
+
+	if (a.type === 'none' || b.type === 'none') {
+		return false;
+	}
+
+	return a.equals(b);
+}
+
+export function createCacheKey(editor: vscode.TextEditor | undefined, includePosition = false): CacheKey {
+	if (!editor) {
+		return cacheKeyNone;
+	}
+
+	// The docs at positions outside of words, such as on punctuation, can differ from one position to the next
+	const wordRange = editor.document.getWordRangeAtPosition(editor.selection.active);
+	return new DocumentCacheKey(
+		editor.document.uri,
+		editor.document.version,
+		wordRange,
+		includePosition || !wordRange ? editor.selection.active : undefined);
+}
@@ -0,0 +1,110 @@
+import { JSDOM } from 'jsdom';
+import * as vscode from 'vscode';
+import { ThemeColors } from './codeHighlighter';
+import { HistoryEntry } from './history';
+
+export async function copyAsMarkdown(entry: HistoryEntry | undefined): Promise<void> {
+	if (!entry) {
+		return showNothingToExport();
+	}
+	await vscode.env.clipboard.writeText(entry.markdown);
+}
+
+export async function copyAsHtml(entry: HistoryEntry | undefined, colors: ThemeColors): Promise<void> {
+	if (!entry) {
+		return showNothingToExport();
+	}
+	await vscode.env.clipboard.writeText(getStandaloneHtml(entry, colors));
+}
+
+export async function saveAs(entry: HistoryEntry | undefined, colors: ThemeColors): Promise<void> {
+	if (!entry) {
+		return showNothingToExport();
+	}
+
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(entry.uri) ?? vscode.workspace.workspaceFolders?.[0];
+	const target = await vscode.window.showSaveDialog({
+		defaultUri: workspaceFolder && vscode.Uri.joinPath(workspaceFolder.uri, `${entry.symbol || 'documentation'}.md`),
+		filters: {
+			'Markdown': ['md'],
+			'HTML': ['html', 'htm'],
+			'Plain Text': ['txt'],
+		},
+		saveLabel: 'Save Documentation',
+	});
+	if (!target) {
+		return;
+	}
+
+	let contents: string;
+	if (/\.html?$/i.test(target.path)) {
+		contents = getStandaloneHtml(entry, colors);
+	} else if (/\.txt$/i.test(target.path)) {
+		contents = getPlainText(entry);
+	} else {
+		contents = entry.markdown;
+	}
+
+	await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(contents));
+}
+
+/**
+ * Create an html document that renders the same outside of VS Code.
+ *
+ * Code blocks are already highlighted with inline styles, so we only need to inline the colors that the
+ * documentation view would normally pick up from VS Code.
+ */
+function getStandaloneHtml(entry: HistoryEntry, colors: ThemeColors): string {
+	return /* html */`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(entry.symbol || 'Documentation')}</title>
+<style>
+body {
+	color: ${colors.foreground};
+	background: ${colors.background};
+	font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+	font-size: 13px;
+	line-height: 1.4;
+	word-wrap: break-word;
+	padding: 0 20px;
+}
+pre code {
+	white-space: pre-wrap;
+}
+code {
+	font-family: Menlo, Monaco, Consolas, "Courier New", monospace;
+}
+hr {
+	border: none;
+	border-bottom: 1px solid currentColor;
+	opacity: 0.3;
+}
+a {
+	color: #3794ff;
+}
+</style>
+</head>
+<body>
+${entry.html}
+</body>
+</html>
+`;
+}
+
+function getPlainText(entry: HistoryEntry): string {
+	const dom = new JSDOM(entry.html);
+	return (dom.window.document.body.textContent ?? '').trim() + '\n';
+}
+
+function showNothingToExport() {
+	vscode.window.showInformationMessage('There is no documentation to export.');
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;');
+}
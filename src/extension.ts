@@ -1,21 +1,157 @@
 import * as vscode from 'vscode';
+import { createApi, DocsViewApi } from './api';
+import { ContentProviders } from './contentProviders';
+import { applyCodeAction, applyCodeActionCommand, QuickFixReference } from './diagnostics';
 import { DocsViewViewProvider } from './docsView';
+import { DocumentationCache } from './documentationCache';
+import { DocumentationPanels } from './documentationPanel';
+import { DocumentationView } from './documentationView';
+import { copyAsHtml, copyAsMarkdown, saveAs } from './export';
+import { initializeLogger, logger } from './logger';
+import { Renderer } from './renderer';
+import { getRequestSummary } from './requestLog';
 
-export function activate(context: vscode.ExtensionContext) {
+const maxCacheSize = 100;
 
-	const provider = new DocsViewViewProvider(context.extensionUri);
-	context.subscriptions.push(provider);
+export function activate(context: vscode.ExtensionContext): DocsViewApi {
+
+	context.subscriptions.push(initializeLogger());
+
+	const renderer = new Renderer();
+	context.subscriptions.push(renderer);
+
+	const cache = new DocumentationCache(maxCacheSize, renderer);
+	context.subscriptions.push(cache);
+
+	const contentProviders = new ContentProviders();
+	context.subscriptions.push(contentProviders);
+
+	// Registered providers can change the docs at any position
+	contentProviders.onDidChange(() => cache.clear(), null, context.subscriptions);
+
+	const sidebarView = new DocumentationView(context.extensionUri, renderer, cache, contentProviders, {
+		id: 'documentationView',
+		progressLocation: { viewId: DocsViewViewProvider.viewType },
+	}, context.workspaceState);
+	context.subscriptions.push(sidebarView);
+
+	const panelView = new DocumentationView(context.extensionUri, renderer, cache, contentProviders, {
+		id: 'panelView',
+		progressLocation: { viewId: DocsViewViewProvider.panelViewType },
+	}, context.workspaceState);
+	context.subscriptions.push(panelView);
+
+	const editorPanels = new DocumentationPanels(context.extensionUri, renderer, cache, contentProviders);
+	context.subscriptions.push(editorPanels);
 
 	context.subscriptions.push(
-		vscode.window.registerWebviewViewProvider(DocsViewViewProvider.viewType, provider));
+		vscode.window.registerWebviewViewProvider(DocsViewViewProvider.viewType, new DocsViewViewProvider(sidebarView)));
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand('docsView.documentationView.pin', () => {
-			provider.pin();
+		vscode.window.registerWebviewViewProvider(DocsViewViewProvider.panelViewType, new DocsViewViewProvider(panelView)));
+
+	const instances: ReadonlyArray<[string, () => DocumentationView | undefined]> = [
+		[sidebarView.id, () => sidebarView],
+		[panelView.id, () => panelView],
+		[DocumentationPanels.id, () => editorPanels.active],
+	];
+
+	for (const [id, getView] of instances) {
+		context.subscriptions.push(
+			vscode.commands.registerCommand(`docsView.${id}.pin`, () => {
+				getView()?.pin();
+			}));
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand(`docsView.${id}.unpin`, () => {
+				getView()?.unpin();
+			}));
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand(`docsView.${id}.back`, () => {
+				getView()?.back();
+			}));
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand(`docsView.${id}.forward`, () => {
+				getView()?.forward();
+			}));
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand(`docsView.${id}.copyMarkdown`, () => {
+				return copyAsMarkdown(getView()?.getShownEntry());
+			}));
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand(`docsView.${id}.copyHtml`, () => {
+				return copyAsHtml(getView()?.getShownEntry(), renderer.themeColors);
+			}));
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand(`docsView.${id}.saveAs`, () => {
+				return saveAs(getView()?.getShownEntry(), renderer.themeColors);
+			}));
+	}
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('docsView.showDocsForCursor', () => {
+			sidebarView.showDocsForCursor();
+			panelView.showDocsForCursor();
+			editorPanels.active?.showDocsForCursor();
+		}));
+
+	// Run by the quick fix buttons in the docs
+	context.subscriptions.push(
+		vscode.commands.registerCommand(applyCodeActionCommand, (reference: QuickFixReference) => {
+			return applyCodeAction(reference);
 		}));
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand('docsView.documentationView.unpin', () => {
-			provider.unpin();
+		vscode.commands.registerCommand('docsView.focus', () => {
+			return vscode.commands.executeCommand(`${DocsViewViewProvider.viewType}.focus`);
 		}));
+
+	for (const direction of ['up', 'down'] as const) {
+		context.subscriptions.push(
+			vscode.commands.registerCommand(direction === 'up' ? 'docsView.scrollUp' : 'docsView.scrollDown', () => {
+				sidebarView.scroll(direction);
+				panelView.scroll(direction);
+				editorPanels.active?.scroll(direction);
+			}));
+	}
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('docsView.showCacheStatistics', () => {
+			const { size, maxSize, hits, misses } = cache.statistics;
+			const hitRate = hits + misses ? Math.round(100 * hits / (hits + misses)) : 0;
+			logger.info(`Cache: ${size}/${maxSize} entries, ${hits} hits, ${misses} misses (${hitRate}% hit rate)`);
+			logger.show();
+		}));
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('docsView.showDiagnostics', async () => {
+			const { size, maxSize, hits, misses } = cache.statistics;
+			const content = [
+				'# Docs View Diagnostics',
+				'',
+				`Log level: ${vscode.LogLevel[logger.logLevel]}. Change it with \`Developer: Set Log Level...\` to see more in the "Docs View" output.`,
+				'',
+				`Cache: ${size}/${maxSize} entries, ${hits} hits, ${misses} misses.`,
+				'',
+				getRequestSummary(),
+				'',
+			].join('\n');
+
+			const document = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+			await vscode.window.showTextDocument(document, { preview: true });
+		}));
+
+	for (const view of [sidebarView, panelView]) {
+		context.subscriptions.push(
+			vscode.commands.registerCommand(`docsView.${view.id}.openInEditor`, () => {
+				editorPanels.open(view.getShownEntry());
+			}));
+	}
+
+	return createApi(renderer, contentProviders, [sidebarView, panelView], editorPanels, context.subscriptions);
 }
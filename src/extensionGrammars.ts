@@ -0,0 +1,96 @@
+import type { ILanguageRegistration } from 'shiki';
+import * as vscode from 'vscode';
+
+interface ContributedLanguages {
+	/** Maps lower case language ids, aliases, and file extensions to language ids */
+	readonly languageIds: ReadonlyMap<string, string>;
+
+	/** Maps language ids to the grammar registered for them */
+	readonly grammars: ReadonlyMap<string, ILanguageRegistration>;
+}
+
+/**
+ * Finds the languages and grammars that installed extensions contribute, including VS Code's built-in ones.
+ */
+export class ExtensionGrammars {
+
+	private readonly _disposables: vscode.Disposable[] = [];
+
+	private _contributions?: ContributedLanguages;
+
+	constructor() {
+		vscode.extensions.onDidChange(() => {
+			this._contributions = undefined;
+		}, null, this._disposables);
+	}
+
+	dispose() {
+		let item: vscode.Disposable | undefined;
+		while ((item = this._disposables.pop())) {
+			item.dispose();
+		}
+	}
+
+	/**
+	 * Get the id of the language that a code block info string refers to.
+	 *
+	 * Besides language ids, this also matches the language's aliases and file extensions.
+	 */
+	public getLanguageId(info: string): string | undefined {
+		const lower = info.toLowerCase();
+		const languageIds = this.contributions.languageIds;
+		return languageIds.get(lower) ?? languageIds.get('.' + lower);
+	}
+
+	public getGrammar(languageId: string): ILanguageRegistration | undefined {
+		return this.contributions.grammars.get(languageId);
+	}
+
+	private get contributions(): ContributedLanguages {
+		this._contributions ??= ExtensionGrammars.readContributions();
+		return this._contributions;
+	}
+
+	private static readContributions(): ContributedLanguages {
+		const languageIds = new Map<string, string>();
+		const grammars = new Map<string, ILanguageRegistration>();
+
+		for (const ext of vscode.extensions.all) {
+			const contributes = ext.packageJSON.contributes;
+			if (!contributes) {
+				continue;
+			}
+
+			for (const language of asArray(contributes.languages)) {
+				if (typeof language?.id !== 'string') {
+					continue;
+				}
+
+				for (const name of [language.id, ...asArray(language.aliases), ...asArray(language.extensions)]) {
+					if (typeof name === 'string' && !languageIds.has(name.toLowerCase())) {
+						languageIds.set(name.toLowerCase(), language.id);
+					}
+				}
+			}
+
+			for (const grammar of asArray(contributes.grammars)) {
+				// Grammars without a language are only injected into or embedded in other grammars
+				if (typeof grammar?.language !== 'string' || typeof grammar.scopeName !== 'string' || typeof grammar.path !== 'string') {
+					continue;
+				}
+
+				grammars.set(grammar.language, {
+					id: grammar.language,
+					scopeName: grammar.scopeName,
+					path: vscode.Uri.joinPath(ext.extensionUri, grammar.path).fsPath,
+				});
+			}
+		}
+
+		return { languageIds, grammars };
+	}
+}
+
+function asArray(value: unknown): any[] {
+	return Array.isArray(value) ? value : [];
+}
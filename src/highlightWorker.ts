@@ -0,0 +1,85 @@
+/**
+ * Highlights code blocks on a worker thread, so that large docs don't block the extension host.
+ *
+ * Shiki and its WASM regex engine are only loaded once the first code block is highlighted, and only the grammars of
+ * the languages that code blocks use are loaded.
+ */
+import * as shiki from 'shiki';
+import type { Highlighter, ILanguageRegistration, IShikiTheme, Lang } from 'shiki';
+import { parentPort } from 'worker_threads';
+import { HighlighterRequest, HighlighterResponse } from './highlighterProtocol';
+
+let theme: IShikiTheme | undefined;
+let highlighter: Promise<Highlighter> | undefined;
+
+/** Languages that code blocks used so far, which the highlighter loads */
+let languages: readonly ILanguageRegistration[] = [];
+
+/** Code blocks are highlighted one after another, since each can require the highlighter to be created again */
+let queue = Promise.resolve();
+
+parentPort?.on('message', (request: HighlighterRequest) => {
+	switch (request.type) {
+		case 'setTheme':
+			theme = request.theme;
+			highlighter = undefined;
+			break;
+
+		case 'highlight':
+			queue = queue.then(async () => {
+				parentPort?.postMessage(await highlight(request));
+			});
+			break;
+	}
+});
+
+async function highlight(request: Extract<HighlighterRequest, { type: 'highlight' }>): Promise<HighlighterResponse> {
+	let current: Highlighter;
+	try {
+		current = await getHighlighter(request.grammar ?? request.language);
+	} catch (e) {
+		return { type: 'failed', id: request.id, error: String(e), languageFailed: true };
+	}
+
+	try {
+		return { type: 'highlighted', id: request.id, html: current.codeToHtml(request.code, { lang: request.language }) };
+	} catch (e) {
+		return { type: 'failed', id: request.id, error: String(e), languageFailed: false };
+	}
+}
+
+/**
+ * Get a highlighter that has loaded the language.
+ */
+async function getHighlighter(language: string | ILanguageRegistration): Promise<Highlighter> {
+	if (!theme) {
+		throw new Error('No theme set');
+	}
+
+	const registration = typeof language === 'string' ? getBundledLanguage(language) : language;
+	if (!registration) {
+		throw new Error(`Unknown language '${language}'`);
+	}
+
+	// Shiki can only load grammars that include each other when it loads them together, so the highlighter is created
+	// again for each new language. Without `langs`, it would load the grammars of all languages that it bundles instead.
+	const previous = languages;
+	if (!languages.some(loaded => loaded.id === registration.id)) {
+		languages = [...languages, registration];
+		highlighter = undefined;
+	}
+
+	highlighter ??= shiki.getHighlighter({ theme, langs: [...languages] });
+	try {
+		return await highlighter;
+	} catch (e) {
+		// Leave out the language that could not be loaded, so that the others can still be highlighted
+		languages = previous;
+		highlighter = undefined;
+		throw e;
+	}
+}
+
+function getBundledLanguage(language: string): ILanguageRegistration | undefined {
+	return shiki.BUNDLED_LANGUAGES.find(bundled => bundled.id === language || bundled.aliases?.includes(language as Lang));
+}
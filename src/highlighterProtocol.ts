@@ -0,0 +1,30 @@
+import type { ILanguageRegistration, IShikiTheme } from 'shiki';
+
+/**
+ * Messages from the extension to the highlighting worker.
+ */
+export type HighlighterRequest =
+	/** Highlight with this theme from now on */
+	| { readonly type: 'setTheme'; readonly theme: IShikiTheme }
+	| {
+		readonly type: 'highlight';
+		readonly id: number;
+		readonly code: string;
+		/** Shiki language id */
+		readonly language: string;
+		/** Grammar to load if the language is not bundled with shiki */
+		readonly grammar?: ILanguageRegistration;
+	};
+
+/**
+ * Messages from the highlighting worker to the extension.
+ */
+export type HighlighterResponse =
+	| { readonly type: 'highlighted'; readonly id: number; readonly html: string }
+	| {
+		readonly type: 'failed';
+		readonly id: number;
+		readonly error: string;
+		/** The grammar could not be loaded, so there is no point in trying the language again */
+		readonly languageFailed: boolean;
+	};
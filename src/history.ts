@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+
+export interface HistoryEntry {
+	readonly symbol: string;
+	readonly uri: vscode.Uri;
+	readonly position: vscode.Position;
+	readonly markdown: string;
+	readonly html: string;
+}
+
+export interface SerializedHistoryEntry {
+	readonly symbol: string;
+	readonly uri: string;
+	readonly position: { readonly line: number; readonly character: number };
+	readonly markdown?: string;
+	readonly html: string;
+}
+
+/**
+ * Limit on the length of the rendered html that is persisted at once, since the workspace state is written to disk as a whole.
+ */
+export const maxPersistedHtmlLength = 500_000;
+
+/**
+ * How long to wait for further changes before persisting, so that moving the cursor around doesn't write on every update.
+ */
+export const persistDelay = 1000;
+
+interface SerializedHistory {
+	readonly entries: readonly SerializedHistoryEntry[];
+	readonly index: number;
+}
+
+/**
+ * Bounded back/forward stack of rendered documentation. The most recent entries are persisted in the workspace state if one is provided.
+ */
+export class History {
+
+	private static readonly maxPersistedSize = 10;
+
+	private _entries: HistoryEntry[] = [];
+	private _index = -1;
+	private _saveTimer?: ReturnType<typeof setTimeout>;
+
+	constructor(
+		private readonly _maxSize: number,
+		private readonly _storageKey?: string,
+		private readonly _memento?: vscode.Memento,
+	) {
+		if (_storageKey && _memento) {
+			this.load(_storageKey, _memento);
+		}
+	}
+
+	dispose() {
+		// Write any change that is still waiting to be persisted
+		if (this._saveTimer) {
+			clearTimeout(this._saveTimer);
+			this.write();
+		}
+	}
+
+	public get current(): HistoryEntry | undefined {
+		return this._entries[this._index];
+	}
+
+	public get canGoBack(): boolean {
+		return this._index > 0;
+	}
+
+	public get canGoForward(): boolean {
+		return this._index < this._entries.length - 1;
+	}
+
+	/**
+	 * Is the user looking at an older entry instead of the most recent one?
+	 */
+	public get isNavigating(): boolean {
+		return this.canGoForward;
+	}
+
+	public push(entry: HistoryEntry): void {
+		// Drop anything we had navigated back past
+		this._entries.splice(this._index + 1);
+
+		// Re-rendering the same symbol, such as after an edit, replaces the entry instead of adding a new one
+		const current = this.current;
+		if (current && isSameSymbol(current, entry)) {
+			this._entries[this._index] = entry;
+			this.save();
+			return;
+		}
+
+		this._entries.push(entry);
+		if (this._entries.length > this._maxSize) {
+			this._entries.shift();
+		}
+		this._index = this._entries.length - 1;
+		this.save();
+	}
+
+	/**
+	 * Replace the current entry without dropping the entries after it, such as after it has been rendered again.
+	 */
+	public replaceCurrent(entry: HistoryEntry): void {
+		if (!this.current) {
+			return;
+		}
+		this._entries[this._index] = entry;
+		this.save();
+	}
+
+	public back(): HistoryEntry | undefined {
+		if (!this.canGoBack) {
+			return undefined;
+		}
+		const entry = this._entries[--this._index];
+		this.save();
+		return entry;
+	}
+
+	public forward(): HistoryEntry | undefined {
+		if (!this.canGoForward) {
+			return undefined;
+		}
+		const entry = this._entries[++this._index];
+		this.save();
+		return entry;
+	}
+
+	private save() {
+		if (!this._storageKey || !this._memento) {
+			return;
+		}
+
+		clearTimeout(this._saveTimer);
+		this._saveTimer = setTimeout(() => this.write(), persistDelay);
+	}
+
+	private write() {
+		this._saveTimer = undefined;
+		if (!this._storageKey || !this._memento) {
+			return;
+		}
+
+		// Rendered html can be large, so only keep the entries around the current one
+		const maxStart = Math.max(0, this._entries.length - History.maxPersistedSize);
+		let start = Math.min(maxStart, Math.max(0, this._index - Math.floor(History.maxPersistedSize / 2)));
+		let end = Math.min(this._entries.length, start + History.maxPersistedSize);
+		let length = this._entries.slice(start, end).reduce((sum, entry) => sum + entry.html.length, 0);
+		while (length > maxPersistedHtmlLength && end - start > 1) {
+			// Drop whichever end is furthest from the current entry
+			if (this._index - start > end - 1 - this._index) {
+				length -= this._entries[start++].html.length;
+			} else {
+				length -= this._entries[--end].html.length;
+			}
+		}
+
+		const data: SerializedHistory | undefined = length <= maxPersistedHtmlLength
+			? { entries: this._entries.slice(start, end).map(serializeHistoryEntry), index: this._index - start }
+			: undefined;
+		this._memento.update(this._storageKey, data);
+	}
+
+	private load(storageKey: string, memento: vscode.Memento) {
+		const data = memento.get<SerializedHistory>(storageKey);
+		if (!data) {
+			return;
+		}
+
+		try {
+			this._entries = data.entries.map(deserializeHistoryEntry);
+			this._index = Math.min(data.index, this._entries.length - 1);
+		} catch (e) {
+			// Ignore invalid stored state
+			this._entries = [];
+			this._index = -1;
+		}
+	}
+}
+
+/**
+ * Get a key that identifies the symbol an entry is for, such as to remember how far its docs were scrolled.
+ */
+export function getEntryKey(entry: Pick<HistoryEntry, 'uri' | 'position' | 'symbol'>): string {
+	return `${entry.uri.toString()}#${entry.position.line}:${entry.symbol}`;
+}
+
+export function serializeHistoryEntry(entry: HistoryEntry): SerializedHistoryEntry {
+	return {
+		symbol: entry.symbol,
+		uri: entry.uri.toString(),
+		position: { line: entry.position.line, character: entry.position.character },
+		markdown: entry.markdown,
+		html: entry.html,
+	};
+}
+
+export function deserializeHistoryEntry(data: SerializedHistoryEntry): HistoryEntry {
+	return {
+		symbol: data.symbol,
+		uri: vscode.Uri.parse(data.uri),
+		position: new vscode.Position(data.position.line, data.position.character),
+		markdown: data.markdown ?? '',
+		html: data.html,
+	};
+}
+
+function isSameSymbol(a: HistoryEntry, b: HistoryEntry): boolean {
+	return a.symbol === b.symbol
+		&& a.position.line === b.position.line
+		&& a.uri.toString() === b.uri.toString();
+}
@@ -0,0 +1,125 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { resolveLink } from './links';
+
+export interface ResolvedImages {
+	readonly html: string;
+
+	/** If any images are loaded from local files, which the webview must be allowed to load from */
+	readonly hasLocalImages: boolean;
+}
+
+export function isRemoteImagesBlocked(): boolean {
+	return vscode.workspace.getConfiguration('docsView').get<boolean>('images.blockRemote', false);
+}
+
+/**
+ * Get the folders that local images may be loaded from: the workspace folders and the folder of the document that the
+ * documentation was rendered for.
+ */
+export function getImageRoots(baseUri: vscode.Uri | undefined): vscode.Uri[] {
+	const documentFolder = getDocumentFolder(baseUri);
+	return [
+		...(vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri),
+		...(documentFolder ? [documentFolder] : []),
+	];
+}
+
+/**
+ * Get the folder of a document, if the webview must be allowed to load images from it in addition to the workspace folders.
+ */
+export function getDocumentFolder(baseUri: vscode.Uri | undefined): vscode.Uri | undefined {
+	if (!baseUri || baseUri.scheme === 'untitled') {
+		return undefined;
+	}
+
+	const folder = vscode.Uri.joinPath(baseUri, '..');
+	const workspaceFolders = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri);
+	return isInResourceRoots(folder, workspaceFolders) ? undefined : folder;
+}
+
+/**
+ * Rewrite the sources of images in rendered documentation so that the webview can load them.
+ *
+ * Relative and `file:` sources are resolved against the document that the documentation was rendered for. Local
+ * images outside of `roots` are replaced by their alt text, as are remote images if they are blocked.
+ *
+ * @param html Sanitized html, which always uses double quoted attributes.
+ * @param roots Folders that local images may be loaded from, see {@link getImageRoots}.
+ */
+export function resolveImages(html: string, baseUri: vscode.Uri | undefined, webview: vscode.Webview, roots: readonly vscode.Uri[]): ResolvedImages {
+	const blockRemote = isRemoteImagesBlocked();
+	let hasLocalImages = false;
+
+	const resolved = html.replace(/<img\b(?:[^>"]|"[^"]*")*>/gi, img => {
+		const src = getAttribute(img, 'src');
+		if (!src || /^data:/i.test(src)) {
+			return img;
+		}
+
+		if (/^(?:https?:)?\/\//i.test(src)) {
+			return blockRemote
+				? renderBlockedImage(img, 'Remote images are blocked by the docsView.images.blockRemote setting')
+				: img;
+		}
+
+		let uri: vscode.Uri;
+		try {
+			uri = resolveLink(src, baseUri);
+		} catch (e) {
+			return img;
+		}
+
+		if (uri.scheme !== 'file' && uri.scheme !== baseUri?.scheme) {
+			return img;
+		}
+
+		// Normalized so that `..` can't escape the roots
+		const imageUri = uri.with({ path: path.posix.normalize(uri.path), fragment: '' });
+		if (!isInResourceRoots(imageUri, roots)) {
+			return renderBlockedImage(img, 'Only images in the workspace or next to the document are shown');
+		}
+		hasLocalImages = true;
+		return setAttribute(img, 'src', webview.asWebviewUri(imageUri).toString());
+	});
+
+	return { html: resolved, hasLocalImages };
+}
+
+function renderBlockedImage(img: string, reason: string): string {
+	return `<span class="blocked-image" title="${escapeHtml(reason)}">${escapeHtml(getAttribute(img, 'alt') || 'Image')}</span>`;
+}
+
+/**
+ * Is `uri` inside any of `roots`?
+ */
+export function isInResourceRoots(uri: vscode.Uri, roots: readonly vscode.Uri[]): boolean {
+	return roots.some(root => root.scheme === uri.scheme
+		&& root.authority === uri.authority
+		&& (uri.path === root.path || uri.path.startsWith(root.path.endsWith('/') ? root.path : root.path + '/')));
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+	const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`, 'i'));
+	return match ? unescapeHtml(match[1]) : undefined;
+}
+
+function setAttribute(tag: string, name: string, value: string): string {
+	return tag.replace(new RegExp(`(\\s${name}=")[^"]*(")`, 'i'), (_, start, end) => start + escapeHtml(value) + end);
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/"/g, '&quot;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;');
+}
+
+function unescapeHtml(value: string): string {
+	return value
+		.replace(/&quot;/g, '"')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&amp;/g, '&');
+}
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+
+/**
+ * Open a link that was clicked in the rendered documentation.
+ *
+ * Command links are only ever present in the rendered html if their source markdown was trusted.
+ *
+ * @param href The raw `href` of the clicked link.
+ * @param baseUri Uri of the document the documentation was rendered for. Used to resolve relative links.
+ */
+export async function openLink(href: string, baseUri: vscode.Uri | undefined): Promise<void> {
+	let uri: vscode.Uri;
+	try {
+		uri = resolveLink(href, baseUri);
+	} catch (e) {
+		return;
+	}
+
+	switch (uri.scheme) {
+		case 'command':
+			return runCommandLink(uri);
+
+		case 'http':
+		case 'https':
+		case 'mailto':
+		case 'tel':
+			await vscode.env.openExternal(uri);
+			return;
+
+		default:
+			return openDocumentLink(uri);
+	}
+}
+
+/**
+ * Resolve a possibly relative link against the uri of the document that it appeared in.
+ */
+export function resolveLink(href: string, baseUri: vscode.Uri | undefined): vscode.Uri {
+	if (/^[a-z][\w+.-]*:/i.test(href)) {
+		return vscode.Uri.parse(href, true);
+	}
+
+	if (!baseUri) {
+		throw new Error('Cannot resolve relative link without a base');
+	}
+
+	const [path, fragment] = splitFragment(href);
+	if (!path) {
+		return baseUri.with({ fragment });
+	}
+
+	const resolved = path.startsWith('/')
+		? baseUri.with({ path })
+		: vscode.Uri.joinPath(baseUri, '..', path);
+	return resolved.with({ fragment });
+}
+
+function splitFragment(href: string): [string, string] {
+	const index = href.indexOf('#');
+	return index >= 0
+		? [decodeURIComponent(href.slice(0, index)), href.slice(index + 1)]
+		: [decodeURIComponent(href), ''];
+}
+
+async function runCommandLink(uri: vscode.Uri): Promise<void> {
+	let args: unknown[] = [];
+	if (uri.query) {
+		try {
+			const parsed = JSON.parse(uri.query);
+			args = Array.isArray(parsed) ? parsed : [parsed];
+		} catch (e) {
+			// Not json, pass the raw query instead
+			args = [uri.query];
+		}
+	}
+	await vscode.commands.executeCommand(uri.path, ...args);
+}
+
+async function openDocumentLink(uri: vscode.Uri): Promise<void> {
+	const selection = parseLineFragment(uri.fragment);
+	await vscode.commands.executeCommand('vscode.open', uri.with({ fragment: '' }), {
+		selection,
+		preserveFocus: false,
+	} as vscode.TextDocumentShowOptions);
+}
+
+/**
+ * Parse the `L10`, `L10,5` and `10,5` line fragments that VS Code also supports in links.
+ */
+function parseLineFragment(fragment: string): vscode.Range | undefined {
+	const match = fragment.match(/^L?(\d+)(?:,(\d+))?/);
+	if (!match) {
+		return undefined;
+	}
+
+	const line = Math.max(0, parseInt(match[1], 10) - 1);
+	const character = match[2] ? Math.max(0, parseInt(match[2], 10) - 1) : 0;
+	const position = new vscode.Position(line, character);
+	return new vscode.Range(position, position);
+}
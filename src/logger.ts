@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+
+let channel: vscode.LogOutputChannel | undefined;
+
+/**
+ * Create the "Docs View" output channel that {@link logger} writes to.
+ *
+ * Its level is changed with the `Developer: Set Log Level...` command, like the logs of VS Code itself.
+ */
+export function initializeLogger(): vscode.Disposable {
+	const outputChannel = vscode.window.createOutputChannel('Docs View', { log: true });
+	channel = outputChannel;
+
+	return new vscode.Disposable(() => {
+		if (channel === outputChannel) {
+			channel = undefined;
+		}
+		outputChannel.dispose();
+	});
+}
+
+/**
+ * Writes to the "Docs View" output channel. Does nothing until {@link initializeLogger} is called, such as in tests.
+ */
+export const logger = {
+	trace(message: string, ...args: any[]) {
+		channel?.trace(message, ...args);
+	},
+
+	debug(message: string, ...args: any[]) {
+		channel?.debug(message, ...args);
+	},
+
+	info(message: string, ...args: any[]) {
+		channel?.info(message, ...args);
+	},
+
+	warn(message: string, ...args: any[]) {
+		channel?.warn(message, ...args);
+	},
+
+	error(error: string | Error, ...args: any[]) {
+		channel?.error(error, ...args);
+	},
+
+	get logLevel(): vscode.LogLevel {
+		return channel?.logLevel ?? vscode.LogLevel.Off;
+	},
+
+	show() {
+		channel?.show(true);
+	},
+};
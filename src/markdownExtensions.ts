@@ -0,0 +1,62 @@
+import katex from 'katex';
+import type { TokenizerAndRendererExtension } from 'marked';
+
+/**
+ * Marked extensions for `$inline$` and `$$block$$` math.
+ *
+ * Math is rendered to MathML so that it does not need any fonts or stylesheets.
+ */
+export const mathExtensions: TokenizerAndRendererExtension[] = [
+	{
+		name: 'blockMath',
+		level: 'block',
+		start: src => src.match(/^\$\$/m)?.index,
+		tokenizer(src) {
+			const match = src.match(/^\$\$\n?([\s\S]+?)\n?\$\$(?:\n|$)/);
+			if (match) {
+				return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+			}
+			return undefined;
+		},
+		renderer: token => renderMath(token.text, true),
+	},
+	{
+		name: 'inlineMath',
+		level: 'inline',
+		start: src => src.indexOf('$'),
+		tokenizer(src) {
+			// Same rules as pandoc to avoid matching prices, such as `$5 and $10`
+			const match = src.match(/^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/);
+			if (match) {
+				return { type: 'inlineMath', raw: match[0], text: match[1] };
+			}
+			return undefined;
+		},
+		renderer: token => renderMath(token.text, false),
+	},
+];
+
+export function renderMath(tex: string, displayMode: boolean): string {
+	const html = katex.renderToString(tex, {
+		displayMode,
+		output: 'mathml',
+		throwOnError: false,
+	});
+
+	// DOMPurify does not allow `<annotation>` and would keep the raw tex as visible text
+	return html.replace(/<annotation\b[^>]*>[\s\S]*?<\/annotation>/g, '');
+}
+
+/**
+ * Render a mermaid code block. The diagram itself is drawn by the webview.
+ */
+export function renderMermaid(source: string): string {
+	return `<pre class="mermaid">${escapeHtml(source)}</pre>`;
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;');
+}
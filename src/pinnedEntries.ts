@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { deserializeHistoryEntry, HistoryEntry, maxPersistedHtmlLength, SerializedHistoryEntry, serializeHistoryEntry } from './history';
+
+export interface PinnedEntry extends HistoryEntry {
+	readonly id: number;
+}
+
+interface SerializedPinnedEntry extends SerializedHistoryEntry {
+	readonly id: number;
+}
+
+/**
+ * Documentation entries that the user has pinned. These are persisted in the workspace state if one is provided.
+ */
+export class PinnedEntries {
+
+	private readonly _entries: PinnedEntry[];
+
+	constructor(
+		private readonly _storageKey: string,
+		private readonly _memento: vscode.Memento | undefined,
+	) {
+		this._entries = _memento ? PinnedEntries.load(_storageKey, _memento) : [];
+	}
+
+	public get entries(): readonly PinnedEntry[] {
+		return this._entries;
+	}
+
+	public get(id: number): PinnedEntry | undefined {
+		return this._entries.find(entry => entry.id === id);
+	}
+
+	public add(entry: HistoryEntry): PinnedEntry {
+		const id = this._entries.reduce((max, entry) => Math.max(max, entry.id), 0) + 1;
+		const pinned: PinnedEntry = { ...entry, id };
+		this._entries.push(pinned);
+		this.save();
+		return pinned;
+	}
+
+	/**
+	 * Replace the pin with the same id, such as after it has been rendered again.
+	 *
+	 * @returns If the pin still exists.
+	 */
+	public replace(entry: PinnedEntry): boolean {
+		const index = this._entries.findIndex(pinned => pinned.id === entry.id);
+		if (index < 0) {
+			return false;
+		}
+
+		this._entries[index] = entry;
+		this.save();
+		return true;
+	}
+
+	public remove(id: number): boolean {
+		const index = this._entries.findIndex(entry => entry.id === id);
+		if (index < 0) {
+			return false;
+		}
+
+		this._entries.splice(index, 1);
+		this.save();
+		return true;
+	}
+
+	private save() {
+		if (!this._memento) {
+			return;
+		}
+
+		// Pins whose html doesn't fit in what is left of the limit are not restored after a reload
+		let length = 0;
+		const data: SerializedPinnedEntry[] = [];
+		for (const entry of this._entries) {
+			if (length + entry.html.length > maxPersistedHtmlLength) {
+				continue;
+			}
+			length += entry.html.length;
+			data.push({ ...serializeHistoryEntry(entry), id: entry.id });
+		}
+		this._memento.update(this._storageKey, data);
+	}
+
+	private static load(storageKey: string, memento: vscode.Memento): PinnedEntry[] {
+		const data = memento.get<SerializedPinnedEntry[]>(storageKey, []);
+		try {
+			return data.map((entry): PinnedEntry => ({ ...deserializeHistoryEntry(entry), id: entry.id }));
+		} catch (e) {
+			// Ignore invalid stored state
+			return [];
+		}
+	}
+}
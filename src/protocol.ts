@@ -0,0 +1,84 @@
+/**
+ * Messages exchanged between the extension and the documentation webview.
+ *
+ * This module is compiled into both the extension and the webview script, so it must not import `vscode` or use the DOM.
+ */
+
+/**
+ * Bump when a message changes in a way that an older webview script could not handle.
+ */
+export const protocolVersion = 4;
+
+/**
+ * Display settings that are sent to the webview.
+ */
+export interface ViewSettings {
+	readonly fontSize: number;
+	readonly codeFontFamily: string;
+	readonly codeFontSize: number;
+	readonly codeFontFeatureSettings: string;
+	readonly tabSize: number;
+	readonly wrapCode: boolean;
+	/** Code blocks with more lines are collapsed until expanded. `0` never collapses them. */
+	readonly maxCodeLines: number;
+}
+
+export interface TabInfo {
+	readonly id: number;
+	readonly title: string;
+}
+
+export interface SearchResult {
+	readonly name: string;
+	readonly kind: string;
+	readonly detail: string;
+}
+
+/**
+ * State of the webview's ui that is kept by the extension, so that it outlives the webview.
+ */
+export interface WebviewUiState {
+	/** Sources whose sections the user collapsed */
+	readonly collapsedSources: readonly string[];
+}
+
+/**
+ * Messages from the extension to the webview.
+ */
+export type ExtensionMessage =
+	| {
+		readonly type: 'update';
+		readonly body: string;
+		/** Identifies the symbol that the content is for. Content for the same key is patched in place. */
+		readonly key?: string;
+		readonly updateMode: string;
+	}
+	/** A code block of the shown content finished highlighting */
+	| { readonly type: 'codeBlock'; readonly key?: string; readonly index: number; readonly html: string }
+	| { readonly type: 'noContent'; readonly body: string; readonly updateMode: string }
+	| { readonly type: 'tabs'; readonly tabs: readonly TabInfo[]; readonly active: number | null }
+	| { readonly type: 'searchResults'; readonly results: readonly SearchResult[] }
+	| { readonly type: 'settings'; readonly settings: ViewSettings }
+	| { readonly type: 'state'; readonly state: WebviewUiState }
+	| { readonly type: 'scroll'; readonly direction: 'up' | 'down' }
+	/** Something the user asked for failed, such as opening a link. Shown until the content changes. */
+	| { readonly type: 'error'; readonly message: string };
+
+/**
+ * Messages from the webview to the extension.
+ */
+export type WebviewMessage =
+	/** Sent once the script has loaded, with the protocol version it was built with */
+	| { readonly type: 'ready'; readonly version: number }
+	| { readonly type: 'state'; readonly state: WebviewUiState }
+	| { readonly type: 'openLink'; readonly href: string }
+	| { readonly type: 'copy'; readonly text: string }
+	| { readonly type: 'focusTab'; readonly id: number | null }
+	| { readonly type: 'closeTab'; readonly id: number }
+	| { readonly type: 'search'; readonly query: string }
+	| { readonly type: 'selectSymbol'; readonly index: number }
+	| { readonly type: 'back' }
+	| { readonly type: 'forward' }
+	| { readonly type: 'focusEditor' }
+	/** Something went wrong in the webview, for the extension to log */
+	| { readonly type: 'error'; readonly message: string };
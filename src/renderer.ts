@@ -2,7 +2,45 @@ import DOMPurify from 'dompurify';
 import { JSDOM } from 'jsdom';
 import { Marked } from "marked";
 import * as vscode from 'vscode';
-import { CodeHighlighter } from './codeHighlighter';
+import { CodeHighlighter, ThemeColors } from './codeHighlighter';
+import { structureDocTags } from './docTags';
+import { mathExtensions, renderMath, renderMermaid } from './markdownExtensions';
+import { now, RenderTimings } from './requestLog';
+import { defaultSourcesConfiguration, getSourceTitle, hoverSource, SourcesConfiguration } from './sources';
+
+/**
+ * A single piece of hover content.
+ */
+export interface RenderPart {
+	readonly markdown: string;
+	readonly trust: CommandTrust;
+
+	/** Where the content came from, such as {@link hoverSource} or the name of a content provider */
+	readonly source: string;
+}
+
+/**
+ * Receives docs while their code blocks are still being highlighted.
+ */
+export interface RenderProgress {
+	/**
+	 * Called with the docs before all code blocks are highlighted, unless highlighting finishes quickly.
+	 * Code blocks that are not highlighted yet are `<pre>` elements with a `data-code-block` index.
+	 */
+	showUnhighlighted(html: string): void;
+
+	/**
+	 * Called as each code block finishes highlighting, after {@link showUnhighlighted}.
+	 */
+	showCodeBlock(index: number, html: string): void;
+}
+
+export interface RenderedDocumentation {
+	/** The source markdown of all hover parts, separated by `---` */
+	readonly markdown: string;
+	readonly html: string;
+	readonly timings?: RenderTimings;
+}
 
 export class Renderer {
 
@@ -14,6 +52,9 @@ export class Renderer {
 
 	private readonly _purify = DOMPurify(new JSDOM('').window);
 
+	/** Milliseconds to wait for code blocks to be highlighted before showing the docs without highlighting */
+	private static readonly progressiveRenderDelay = 100;
+
 	constructor() {
 		this._highlighter = new CodeHighlighter();
 		this._disposables.push(this._highlighter);
@@ -28,27 +69,147 @@ export class Renderer {
 		}
 	}
 
-	public async render(document: vscode.TextDocument, hovers: readonly vscode.Hover[]): Promise<string> {
-		const parts = (hovers)
+	public get themeColors(): ThemeColors {
+		return this._highlighter.themeColors;
+	}
+
+	/**
+	 * @param languageId Language of code blocks that don't specify one.
+	 */
+	public async render(languageId: string, hovers: readonly vscode.Hover[]): Promise<RenderedDocumentation> {
+		// The hovers all share one source, so only the defaults of the sources configuration apply
+		return this.renderParts(languageId, this.getParts(hovers), defaultSourcesConfiguration);
+	}
+
+	/**
+	 * Extract the markdown of the hovers, which can later be rendered with {@link renderParts}.
+	 */
+	public getParts(hovers: readonly vscode.Hover[], source = hoverSource): RenderPart[] {
+		return hovers
 			.flatMap(hover => hover.contents)
-			.map(content => this.getMarkdown(content))
-			.filter(content => content.length > 0);
+			.map((content): RenderPart => ({ markdown: this.getMarkdown(content), trust: getCommandTrust(content), source }))
+			.filter(part => part.markdown.length > 0);
+	}
 
+	/**
+	 * Render the parts, waiting until all code blocks are highlighted.
+	 *
+	 * @param sources Decides whether the content of each source gets a header.
+	 * @param progress Gets the docs before their code blocks are highlighted, so that they can be shown right away.
+	 * @param token Stops highlighting the remaining code blocks, which are then left unhighlighted.
+	 */
+	public async renderParts(languageId: string, parts: readonly RenderPart[], sources: SourcesConfiguration, progress?: RenderProgress, token?: vscode.CancellationToken): Promise<RenderedDocumentation> {
 		if (!parts.length) {
-			return '';
+			return { markdown: '', html: '' };
 		}
 
-		const markdown = parts.join('\n---\n');
+		const config = vscode.workspace.getConfiguration('docsView');
+		const math = config.get<boolean>('markdown.math', true);
+		const mermaid = config.get<boolean>('markdown.mermaid', true);
+		const collapseSignature = config.get<boolean>('collapseSignature', false);
+
+		const timings = { parse: 0, highlight: 0, sanitize: 0 };
 
-		const highlight = await this._highlighter.getHighlighter(document);
+		// Code blocks are highlighted after parsing, on a worker
+		const codeBlocks: Array<{ code: string; language: string }> = [];
 		const marked = new Marked({
+			extensions: math ? mathExtensions : [],
 			renderer: {
-				code: (code: string, infostring: string | undefined, _escaped: boolean) => highlight(code, infostring ?? '')
+				code: (code: string, infostring: string | undefined, _escaped: boolean) => {
+					const language = getLanguage(infostring);
+					if (math && language === 'math') {
+						return renderMath(code, true);
+					}
+					if (mermaid && language === 'mermaid') {
+						return renderMermaid(code);
+					}
+					codeBlocks.push({ code, language });
+					return `<pre class="code-block" data-code-block="${codeBlocks.length - 1}"><code>${escapeHtml(code)}</code></pre>`;
+				}
 			}
 		});
 
-		const renderedMarkdown = await marked.parse(markdown, {});
-		return this._purify.sanitize(renderedMarkdown, { USE_PROFILES: { html: true } });
+		// Each part is sanitized on its own since only trusted markdown may contain command links
+		const groups: Array<{ source: string; html: string[] }> = [];
+		for (const part of parts) {
+			const parseStart = now();
+			const renderedMarkdown = await marked.parse(structureDocTags(part.markdown, { collapseSignature }), {});
+			timings.parse += now() - parseStart;
+
+			const sanitizeStart = now();
+			const html = this._purify.sanitize(renderedMarkdown, {
+				USE_PROFILES: { html: true, mathMl: math },
+				ALLOWED_URI_REGEXP: getAllowedUriRegExp(part.trust),
+			});
+			timings.sanitize += now() - sanitizeStart;
+
+			const group = groups[groups.length - 1];
+			if (group?.source === part.source) {
+				group.html.push(html);
+			} else {
+				groups.push({ source: part.source, html: [html] });
+			}
+		}
+
+		// Headers only help to tell the sources apart, so they are left out when there is just one
+		const html = sources.showHeaders && groups.length > 1
+			? groups.map(group => renderSourceSection(group.source, group.html)).join('\n')
+			: groups.flatMap(group => group.html).join('\n<hr>\n');
+
+		const highlightStart = now();
+		const highlighted = await this.highlightCodeBlocks(html, languageId, codeBlocks, progress, token);
+		timings.highlight = now() - highlightStart;
+
+		return {
+			markdown: parts.map(part => part.markdown).join('\n---\n'),
+			html: replaceCodeBlocks(html, highlighted),
+			timings,
+		};
+	}
+
+	/**
+	 * Highlight the code blocks one after another, so that the remaining ones can be skipped once the docs are no longer needed.
+	 *
+	 * @returns The highlighted html of the code blocks, by index. Code blocks that could not be highlighted are left out.
+	 */
+	private async highlightCodeBlocks(
+		html: string,
+		languageId: string,
+		codeBlocks: ReadonlyArray<{ code: string; language: string }>,
+		progress: RenderProgress | undefined,
+		token: vscode.CancellationToken | undefined,
+	): Promise<Map<number, string>> {
+		const highlighted = new Map<number, string>();
+		if (!codeBlocks.length) {
+			return highlighted;
+		}
+
+		// Only show the unhighlighted docs if highlighting takes long enough to notice, to prevent a flash
+		let isShown = false;
+		const showTimer = progress && setTimeout(() => {
+			isShown = true;
+			progress.showUnhighlighted(replaceCodeBlocks(html, highlighted));
+		}, Renderer.progressiveRenderDelay);
+
+		try {
+			for (const [index, { code, language }] of codeBlocks.entries()) {
+				if (token?.isCancellationRequested) {
+					break;
+				}
+
+				const result = await this._highlighter.highlight(code, language, languageId);
+				if (result !== undefined) {
+					const sanitized = this._purify.sanitize(result, { USE_PROFILES: { html: true } });
+					highlighted.set(index, sanitized);
+					if (isShown) {
+						progress?.showCodeBlock(index, sanitized);
+					}
+				}
+			}
+		} finally {
+			clearTimeout(showTimer);
+		}
+		return highlighted;
 	}
 
 	private getMarkdown(content: vscode.MarkedString | vscode.MarkdownString): string {
@@ -63,3 +224,71 @@ export class Renderer {
 		}
 	}
 }
+
+/**
+ * Command ids that links in a piece of markdown may run. `true` allows any command.
+ */
+export type CommandTrust = boolean | readonly string[];
+
+function getCommandTrust(content: vscode.MarkedString | vscode.MarkdownString): CommandTrust {
+	if (!(content instanceof vscode.MarkdownString) || !content.isTrusted) {
+		return false;
+	}
+	return typeof content.isTrusted === 'boolean' ? content.isTrusted : content.isTrusted.enabledCommands;
+}
+
+/**
+ * Based on DOMPurify's default, but also allowing `file:` links and any trusted `command:` links.
+ */
+function getAllowedUriRegExp(trust: CommandTrust): RegExp {
+	const allowedSchemes = '(?:https?|mailto|tel|file):';
+
+	let allowedCommands = '';
+	if (trust === true) {
+		allowedCommands = '|command:';
+	} else if (Array.isArray(trust) && trust.length) {
+		allowedCommands = `|command:(?:${trust.map(escapeRegExp).join('|')})(?:\\?|$)`;
+	}
+
+	return new RegExp(`^(?:${allowedSchemes}${allowedCommands}|[^a-z]|[a-z+.\\-]+(?:[^a-z+.\\-:]|$))`, 'i');
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Wrap the content from one source in a section that can be collapsed. The webview remembers which sources were collapsed.
+ */
+function renderSourceSection(source: string, html: readonly string[]): string {
+	const escapedSource = escapeHtml(source);
+	return `<details class="source-section" data-source="${escapedSource}" open><summary class="source-header">${escapeHtml(getSourceTitle(source))}</summary>\n${html.join('\n<hr>\n')}\n</details>`;
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+/**
+ * Replace the placeholders of code blocks with their highlighted html. Code blocks without highlighted html are left as they are.
+ */
+function replaceCodeBlocks(html: string, highlighted: ReadonlyMap<number, string>): string {
+	if (!highlighted.size) {
+		return html;
+	}
+
+	// The code in the placeholders is escaped, so it can't contain the closing tag
+	return html.replace(/<pre class="code-block" data-code-block="(\d+)">[\s\S]*?<\/pre>/g, (placeholder, index) =>
+		highlighted.get(Number(index)) ?? placeholder);
+}
+
+/**
+ * Get the language from a code block info string, such as `ts` for `ts title="example"`.
+ */
+function getLanguage(infostring: string | undefined): string {
+	return (infostring ?? '').trim().split(/\s+/)[0];
+}
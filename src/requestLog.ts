@@ -0,0 +1,170 @@
+import { performance } from 'perf_hooks';
+import * as vscode from 'vscode';
+import { logger } from './logger';
+
+/**
+ * Time in milliseconds spent in each step of rendering docs.
+ */
+export interface RenderTimings {
+	readonly parse: number;
+	readonly highlight: number;
+	readonly sanitize: number;
+}
+
+/**
+ * - `shown` — Docs were loaded and rendered.
+ * - `cached` — Docs were shown from the cache.
+ * - `noDocumentation` — No source had docs for the position, or all of them were hidden.
+ * - `cancelled` — The cursor moved on before the docs finished loading.
+ * - `failed` — Loading or rendering threw an error.
+ */
+export type RequestOutcome = 'shown' | 'cached' | 'noDocumentation' | 'cancelled' | 'failed';
+
+export interface RequestRecord {
+	readonly view: string;
+	readonly location: string;
+	readonly startTime: Date;
+	readonly outcome: RequestOutcome;
+
+	/** Total time in milliseconds */
+	readonly duration: number;
+
+	/** Time in milliseconds spent waiting for the hover providers and the other sources */
+	readonly hovers?: number;
+	readonly render?: RenderTimings;
+
+	/** Number of pieces of content from all sources, before any were hidden or de-duplicated */
+	readonly parts?: number;
+	readonly error?: string;
+}
+
+const maxRecords = 50;
+
+const records: RequestRecord[] = [];
+
+/**
+ * Get the most recent requests for docs, oldest first.
+ */
+export function getRecentRequests(): readonly RequestRecord[] {
+	return records;
+}
+
+export function now(): number {
+	return performance.now();
+}
+
+/**
+ * Start timing a request for the docs at a position, which is recorded once {@link RequestTrace.finish finished}.
+ */
+export function startRequest(view: string, document: vscode.TextDocument, position: vscode.Position): RequestTrace {
+	return new RequestTrace(view, `${vscode.workspace.asRelativePath(document.uri)}:${position.line + 1}:${position.character + 1}`);
+}
+
+export class RequestTrace {
+
+	private readonly _start = now();
+	private readonly _startTime = new Date();
+
+	private _hovers?: number;
+	private _parts?: number;
+
+	constructor(
+		private readonly _view: string,
+		private readonly _location: string,
+	) { }
+
+	public async timeHovers<T extends readonly unknown[]>(request: Promise<T>): Promise<T> {
+		const start = now();
+		try {
+			const parts = await request;
+			this._parts = parts.length;
+			return parts;
+		} finally {
+			this._hovers = now() - start;
+		}
+	}
+
+	public finish(outcome: RequestOutcome, details: { readonly render?: RenderTimings; readonly error?: unknown } = {}): void {
+		const record: RequestRecord = {
+			view: this._view,
+			location: this._location,
+			startTime: this._startTime,
+			outcome,
+			duration: now() - this._start,
+			hovers: this._hovers,
+			render: details.render,
+			parts: this._parts,
+			error: details.error === undefined ? undefined : String(details.error),
+		};
+
+		records.push(record);
+		if (records.length > maxRecords) {
+			records.shift();
+		}
+
+		if (outcome === 'failed') {
+			logger.error(`[${record.view}] ${record.location}: failed after ${formatTime(record.duration)}`, details.error);
+		} else {
+			logger.debug(`[${record.view}] ${record.location}: ${outcome} in ${formatTime(record.duration)}${formatTimings(record)}`);
+		}
+	}
+}
+
+/**
+ * Summarize the recent requests as markdown, for the `Show Docs View Diagnostics` command.
+ */
+export function getRequestSummary(): string {
+	const lines: string[] = [`## Recent requests`, ''];
+	if (!records.length) {
+		lines.push('No docs have been requested yet.');
+		return lines.join('\n');
+	}
+
+	const counts = new Map<RequestOutcome, number>();
+	for (const record of records) {
+		counts.set(record.outcome, (counts.get(record.outcome) ?? 0) + 1);
+	}
+	lines.push(`Last ${records.length} requests: ${Array.from(counts, ([outcome, count]) => `${count} ${outcome}`).join(', ')}.`, '');
+
+	const loaded = records.filter(record => record.outcome === 'shown' || record.outcome === 'noDocumentation');
+	if (loaded.length) {
+		lines.push('| Step | Average | Slowest |', '|---|---|---|');
+		const steps: ReadonlyArray<[string, (record: RequestRecord) => number | undefined]> = [
+			['Total', record => record.duration],
+			['Hover providers', record => record.hovers],
+			['Markdown parsing', record => record.render?.parse],
+			['Highlighting', record => record.render?.highlight],
+			['Sanitizing', record => record.render?.sanitize],
+		];
+		for (const [name, getTime] of steps) {
+			const times = loaded.flatMap(record => getTime(record) ?? []);
+			if (times.length) {
+				const average = times.reduce((sum, time) => sum + time, 0) / times.length;
+				lines.push(`| ${name} | ${formatTime(average)} | ${formatTime(Math.max(...times))} |`);
+			}
+		}
+		lines.push('');
+	}
+
+	lines.push('| Time | View | Position | Result | Total | Hovers | Parse | Highlight | Sanitize | Parts |', '|---|---|---|---|---|---|---|---|---|---|');
+	for (const record of [...records].reverse()) {
+		lines.push(`| ${record.startTime.toLocaleTimeString()} | ${record.view} | \`${record.location}\` | ${record.outcome}${record.error ? `: ${escapeTableCell(record.error)}` : ''} | ${formatTime(record.duration)} | ${formatTime(record.hovers)} | ${formatTime(record.render?.parse)} | ${formatTime(record.render?.highlight)} | ${formatTime(record.render?.sanitize)} | ${record.parts ?? ''} |`);
+	}
+	return lines.join('\n');
+}
+
+function formatTimings(record: RequestRecord): string {
+	const timings = [
+		record.hovers !== undefined ? `hovers ${formatTime(record.hovers)}` : undefined,
+		record.render && `parse ${formatTime(record.render.parse)}, highlight ${formatTime(record.render.highlight)}, sanitize ${formatTime(record.render.sanitize)}`,
+	].filter(Boolean);
+	return timings.length ? ` (${timings.join(', ')})` : '';
+}
+
+export function formatTime(milliseconds: number | undefined): string {
+	return milliseconds === undefined ? '' : `${Math.round(milliseconds)}ms`;
+}
+
+function escapeTableCell(value: string): string {
+	return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
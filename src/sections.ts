@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+
+/**
+ * Optional sections shown alongside the hover documentation.
+ */
+export interface SectionsConfiguration {
+	readonly signatureHelp: boolean;
+	readonly definition: boolean;
+	readonly typeDefinition: boolean;
+	readonly diagnostics: boolean;
+}
+
+export function getSectionsConfiguration(config: vscode.WorkspaceConfiguration): SectionsConfiguration {
+	return {
+		signatureHelp: config.get<boolean>('sections.signatureHelp', false),
+		definition: config.get<boolean>('sections.definition', false),
+		typeDefinition: config.get<boolean>('sections.typeDefinition', false),
+		diagnostics: config.get<boolean>('sections.diagnostics', false),
+	};
+}
+
+export async function getSignatureHelpSection(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.MarkdownString | undefined> {
+	const help = await vscode.commands.executeCommand<vscode.SignatureHelp | undefined>(
+		'vscode.executeSignatureHelpProvider',
+		document.uri,
+		position);
+
+	const signature = help?.signatures[help.activeSignature] ?? help?.signatures[0];
+	if (!help || !signature) {
+		return undefined;
+	}
+
+	const markdown = new vscode.MarkdownString();
+	markdown.supportHtml = true;
+
+	const activeParameterIndex = signature.activeParameter ?? help.activeParameter;
+	const activeParameter = signature.parameters[activeParameterIndex];
+	const [start, end] = activeParameter ? getParameterOffsets(signature.label, activeParameter.label) : [-1, -1];
+
+	// Bold the active parameter in the signature, like VS Code's parameter hints
+	if (start >= 0) {
+		markdown.appendMarkdown(`<pre class="signature"><code>${escapeHtml(signature.label.slice(0, start))}<strong class="active-parameter">${escapeHtml(signature.label.slice(start, end))}</strong>${escapeHtml(signature.label.slice(end))}</code></pre>\n\n`);
+	} else {
+		markdown.appendMarkdown(`<pre class="signature"><code>${escapeHtml(signature.label)}</code></pre>\n\n`);
+	}
+
+	if (activeParameter?.documentation) {
+		const label = typeof activeParameter.label === 'string' ? activeParameter.label : signature.label.slice(start, end);
+		markdown.appendMarkdown(`\`${label}\` — `);
+		appendDocumentation(markdown, activeParameter.documentation);
+		markdown.appendMarkdown('\n\n');
+	}
+
+	if (signature.documentation) {
+		appendDocumentation(markdown, signature.documentation);
+	}
+
+	return markdown;
+}
+
+export async function getDefinitionSection(
+	command: 'vscode.executeDefinitionProvider' | 'vscode.executeTypeDefinitionProvider',
+	title: string,
+	document: vscode.TextDocument,
+	position: vscode.Position,
+): Promise<vscode.MarkdownString | undefined> {
+	const results = await vscode.commands.executeCommand<Array<vscode.Location | vscode.LocationLink> | undefined>(
+		command,
+		document.uri,
+		position);
+
+	if (!results?.length) {
+		return undefined;
+	}
+
+	const markdown = new vscode.MarkdownString();
+	for (const result of results) {
+		const uri = result instanceof vscode.Location ? result.uri : result.targetUri;
+		const range = result instanceof vscode.Location ? result.range : (result.targetSelectionRange ?? result.targetRange);
+
+		const line = range.start.line + 1;
+		const link = uri.with({ fragment: `L${line},${range.start.character + 1}` });
+		markdown.appendMarkdown(`- [${title}](${link.toString()}) — \`${vscode.workspace.asRelativePath(uri)}:${line}\`\n`);
+	}
+	return markdown;
+}
+
+/**
+ * Find the active parameter in the signature. A label is only matched as a whole word within the parameter list,
+ * the same way as VS Code's parameter hints, so that `a` isn't found in the `max` of `max(a, b)`.
+ */
+export function getParameterOffsets(signatureLabel: string, parameterLabel: string | [number, number]): [number, number] {
+	if (typeof parameterLabel !== 'string') {
+		return parameterLabel;
+	}
+	if (!parameterLabel.length) {
+		return [-1, -1];
+	}
+
+	const regExp = new RegExp(`(\\W|^)${escapeRegExp(parameterLabel)}(?=\\W|$)`, 'g');
+	regExp.lastIndex = Math.max(0, signatureLabel.indexOf('('));
+	const match = regExp.exec(signatureLabel);
+	if (!match) {
+		return [-1, -1];
+	}
+
+	const start = match.index + match[1].length;
+	return [start, start + parameterLabel.length];
+}
+
+function appendDocumentation(markdown: vscode.MarkdownString, documentation: string | vscode.MarkdownString) {
+	if (typeof documentation === 'string') {
+		markdown.appendText(documentation);
+	} else {
+		markdown.appendMarkdown(documentation.value);
+	}
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;');
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
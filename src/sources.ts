@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import { RenderPart } from './renderer';
+
+/**
+ * Sources of the content that docs view adds itself. Hovers from language extensions use {@link hoverSource},
+ * unless they match one of the user's `docsView.sources.patterns`.
+ */
+const builtInSourceTitles: Record<string, string> = {
+	signatureHelp: 'Signature',
+	diagnostics: 'Problems',
+	hover: 'Hover',
+	definition: 'Definition',
+	typeDefinition: 'Type definition',
+};
+
+export const hoverSource = 'hover';
+
+/**
+ * How to filter, order and group the content from the different sources.
+ */
+export interface SourcesConfiguration {
+	/** Names hovers by their content, since VS Code doesn't tell which extension provided a hover */
+	readonly patterns: ReadonlyArray<{ readonly source: string; readonly pattern: RegExp }>;
+	readonly order: readonly string[];
+	readonly hidden: readonly string[];
+	readonly hideMatching: readonly RegExp[];
+	readonly deduplicate: boolean;
+	readonly showHeaders: boolean;
+}
+
+export const defaultSourcesConfiguration: SourcesConfiguration = {
+	patterns: [],
+	order: [],
+	hidden: [],
+	hideMatching: [],
+	deduplicate: true,
+	showHeaders: true,
+};
+
+export function getSourcesConfiguration(config: vscode.WorkspaceConfiguration): SourcesConfiguration {
+	const patterns = Object.entries(config.get<Record<string, string>>('sources.patterns', {}))
+		.flatMap(([source, pattern]) => {
+			const regExp = parseRegExp(pattern);
+			return regExp ? [{ source, pattern: regExp }] : [];
+		});
+
+	return {
+		patterns,
+		order: config.get<string[]>('sources.order', []),
+		hidden: config.get<string[]>('sources.hidden', []),
+		hideMatching: config.get<string[]>('sources.hideMatching', []).flatMap(pattern => parseRegExp(pattern) ?? []),
+		deduplicate: config.get<boolean>('sources.deduplicate', true),
+		showHeaders: config.get<boolean>('sources.showHeaders', true),
+	};
+}
+
+export function getSourceTitle(source: string): string {
+	return builtInSourceTitles[source] ?? source;
+}
+
+/**
+ * Name, hide, order and de-duplicate the parts according to the configuration.
+ *
+ * Parts from the same source are kept together and in their original order.
+ */
+export function arrangeParts(parts: readonly RenderPart[], config: SourcesConfiguration): RenderPart[] {
+	const named = parts.map((part): RenderPart => {
+		if (part.source !== hoverSource) {
+			return part;
+		}
+		const match = config.patterns.find(({ pattern }) => pattern.test(part.markdown));
+		return match ? { ...part, source: match.source } : part;
+	});
+
+	const visible = named.filter(part =>
+		!config.hidden.includes(part.source)
+		&& !config.hideMatching.some(pattern => pattern.test(part.markdown)));
+
+	// Sources that are not listed in the order come last, in the order they first appear
+	const firstIndex = new Map<string, number>();
+	visible.forEach((part, index) => {
+		if (!firstIndex.has(part.source)) {
+			firstIndex.set(part.source, index);
+		}
+	});
+	const getRank = (source: string) => {
+		const index = config.order.indexOf(source);
+		return index >= 0 ? index : config.order.length;
+	};
+	const ordered = visible
+		.map((part, index) => ({ part, index }))
+		.sort((a, b) =>
+			getRank(a.part.source) - getRank(b.part.source)
+			|| firstIndex.get(a.part.source)! - firstIndex.get(b.part.source)!
+			|| a.index - b.index)
+		.map(({ part }) => part);
+
+	return config.deduplicate ? deduplicate(ordered) : ordered;
+}
+
+/**
+ * Drop parts whose text is the same as, or included in, the text of a part before them.
+ *
+ * Text is compared without markup, case and whitespace, so that a signature in a code block matches the same
+ * signature in the signature help section.
+ */
+function deduplicate(parts: readonly RenderPart[]): RenderPart[] {
+	const kept: Array<{ part: RenderPart; text: string }> = [];
+	for (const part of parts) {
+		const text = getComparableText(part.markdown);
+		if (text && !kept.some(other => other.text.includes(text))) {
+			kept.push({ part, text });
+		}
+	}
+	return kept.map(({ part }) => part);
+}
+
+function getComparableText(markdown: string): string {
+	return markdown
+		.replace(/^ {0,3}(?:`{3,}|~{3,}).*$/gm, ' ')
+		.replace(/<[^>]*>/g, ' ')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&amp;/g, '&')
+		.replace(/[`*_#>~|\\-]/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.toLowerCase();
+}
+
+function parseRegExp(pattern: string): RegExp | undefined {
+	try {
+		return new RegExp(pattern, 'i');
+	} catch {
+		// Invalid patterns are ignored, like an unset setting
+		return undefined;
+	}
+}
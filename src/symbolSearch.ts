@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+
+const maxResults = 50;
+
+export async function searchWorkspaceSymbols(query: string): Promise<vscode.SymbolInformation[]> {
+	if (!query.trim()) {
+		return [];
+	}
+
+	const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[] | undefined>(
+		'vscode.executeWorkspaceSymbolProvider',
+		query);
+
+	return (symbols ?? []).slice(0, maxResults);
+}
+
+/**
+ * Get a short description of a symbol to show in the search results.
+ */
+export function getSymbolDetail(symbol: vscode.SymbolInformation): string {
+	const path = vscode.workspace.asRelativePath(symbol.location.uri);
+	return symbol.containerName ? `${symbol.containerName} — ${path}` : path;
+}
+
+/**
+ * Get the position of the symbol's name within its declaration.
+ *
+ * Symbol locations often cover the entire declaration, which starts with keywords and modifiers that have no hover.
+ */
+export function getSymbolPosition(document: vscode.TextDocument, symbol: vscode.SymbolInformation): vscode.Position {
+	const range = symbol.location.range;
+	const offset = document.getText(range).indexOf(symbol.name);
+	if (offset < 0) {
+		return range.start;
+	}
+	return document.positionAt(document.offsetAt(range.start) + offset);
+}
@@ -0,0 +1,24 @@
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+async function main() {
+	try {
+		// The folder containing the extension manifest, package.json
+		const extensionDevelopmentPath = path.resolve(__dirname, '../../');
+
+		// The test suite's index script
+		const extensionTestsPath = path.resolve(__dirname, './suite/index');
+
+		await runTests({
+			extensionDevelopmentPath,
+			extensionTestsPath,
+			// Other extensions could contribute hovers that change the rendered docs
+			launchArgs: ['--disable-extensions'],
+		});
+	} catch (err) {
+		console.error('Failed to run tests', err);
+		process.exit(1);
+	}
+}
+
+main();
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { getLanguageId } from '../../codeHighlighter';
+
+suite('getLanguageId', () => {
+
+	test('Maps names and aliases to VS Code language ids', () => {
+		assert.strictEqual(getLanguageId('ts'), 'typescript');
+		assert.strictEqual(getLanguageId('typescript'), 'typescript');
+		assert.strictEqual(getLanguageId('js'), 'javascript');
+		assert.strictEqual(getLanguageId('py'), 'python');
+		assert.strictEqual(getLanguageId('yml'), 'yaml');
+		assert.strictEqual(getLanguageId('c#'), 'csharp');
+		assert.strictEqual(getLanguageId('shell'), 'shellscript');
+		assert.strictEqual(getLanguageId('bash'), 'shellscript');
+		assert.strictEqual(getLanguageId('Dockerfile'), 'dockerfile');
+	});
+
+	test('Is case sensitive, like the markdown grammar', () => {
+		assert.strictEqual(getLanguageId('R'), 'r');
+		assert.strictEqual(getLanguageId('TS'), undefined);
+	});
+
+	test('Leaves unknown languages to the fallbacks', () => {
+		assert.strictEqual(getLanguageId('not-a-language'), undefined);
+		assert.strictEqual(getLanguageId(''), undefined);
+
+		// Known to the markdown grammar, but without a VS Code language
+		assert.strictEqual(getLanguageId('COMMIT_EDITMSG'), undefined);
+	});
+});
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import { structureDocTags } from '../../docTags';
+
+suite('DocTags', () => {
+
+	function structure(...lines: string[]): string {
+		return structureDocTags(lines.join('\n'), { collapseSignature: false });
+	}
+
+	function section(title: string, ...content: string[]): string[] {
+		return [`<details class="doc-section" open>`, `<summary>${title}</summary>`, '', ...content, '', '</details>'];
+	}
+
+	test('Moves the tags of TypeScript hovers into sections', () => {
+		assert.strictEqual(structure(
+			'Adds the numbers.',
+			'',
+			'*@param* `a` — The first number',
+			'',
+			'*@returns* — The sum',
+			'',
+			'*@example*',
+			'```ts',
+			'add(1, 2);',
+			'```',
+		), [
+			'Adds the numbers.',
+			'',
+			...section('Parameters', '- `a` — The first number'),
+			'',
+			...section('Returns', 'The sum'),
+			'',
+			...section('Examples', '```ts', 'add(1, 2);', '```'),
+		].join('\n'));
+	});
+
+	test('Puts the name and type of raw JSDoc params in code', () => {
+		assert.strictEqual(structure(
+			'Greets.',
+			'@param {string} name - The name',
+			'  to greet',
+		), [
+			'Greets.',
+			'',
+			...section('Parameters', '- `name` `string` — The name', '  to greet'),
+		].join('\n'));
+	});
+
+	test('Moves Google docstring sections into sections', () => {
+		assert.strictEqual(structure(
+			'Checks the values.',
+			'',
+			'Args:',
+			'    x (int): The x.',
+			'    y: The y.',
+			'',
+			'Returns:',
+			'    bool: Whether they are valid.',
+		), [
+			'Checks the values.',
+			'',
+			...section('Parameters', '- `x` (int): The x.', '- `y`: The y.'),
+			'',
+			...section('Returns', 'bool: Whether they are valid.'),
+		].join('\n'));
+	});
+
+	test('Keeps the type and description of NumPy docstring sections on separate lines', () => {
+		assert.strictEqual(structure(
+			'Counts the values.',
+			'',
+			'Parameters',
+			'----------',
+			'values : list',
+			'    The values.',
+			'',
+			'Returns',
+			'-------',
+			'int',
+			'    The count',
+		), [
+			'Counts the values.',
+			'',
+			...section('Parameters', '- `values` : list', '  The values.'),
+			'',
+			...section('Returns', 'int', '', 'The count'),
+		].join('\n'));
+	});
+
+	test('Shows deprecations as a banner above the docs', () => {
+		assert.strictEqual(structure(
+			'Does something.',
+			'',
+			'*@deprecated* — Use `other` instead',
+		), [
+			'<div class="deprecation-banner">',
+			'',
+			'**Deprecated** — Use `other` instead',
+			'',
+			'</div>',
+			'',
+			'Does something.',
+		].join('\n'));
+	});
+
+	test('Leaves tags in code blocks alone', () => {
+		const markdown = ['Text', '', '```', '@param x', 'Args:', '    y', '```'].join('\n');
+		assert.strictEqual(structureDocTags(markdown, { collapseSignature: false }), markdown);
+	});
+
+	test('Returns markdown without tags unchanged', () => {
+		const markdown = '# Title\r\n\r\nSome *text*\r\n\r\n- a list item  ';
+		assert.strictEqual(structureDocTags(markdown, { collapseSignature: false }), markdown);
+	});
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DocumentationCache, getDocumentationCacheKey } from '../../documentationCache';
+import { Renderer } from '../../renderer';
+
+suite('DocumentationCache', () => {
+
+	let document: vscode.TextDocument;
+
+	setup(async () => {
+		document = await vscode.workspace.openTextDocument({ language: 'plaintext', content: 'alpha beta\n\ngamma' });
+	});
+
+	test('Positions on the same word share a key', () => {
+		assert.strictEqual(
+			getDocumentationCacheKey(document, new vscode.Position(0, 0), false),
+			getDocumentationCacheKey(document, new vscode.Position(0, 4), false));
+	});
+
+	test('Different words have different keys', () => {
+		assert.notStrictEqual(
+			getDocumentationCacheKey(document, new vscode.Position(0, 1), false),
+			getDocumentationCacheKey(document, new vscode.Position(0, 7), false));
+	});
+
+	test('Positions on the same word have different keys when the position is included', () => {
+		assert.notStrictEqual(
+			getDocumentationCacheKey(document, new vscode.Position(0, 0), true),
+			getDocumentationCacheKey(document, new vscode.Position(0, 4), true));
+	});
+
+	test('Editing the document changes the key', async () => {
+		const position = new vscode.Position(0, 1);
+		const before = getDocumentationCacheKey(document, position, false);
+
+		const edit = new vscode.WorkspaceEdit();
+		edit.insert(document.uri, new vscode.Position(2, 0), 'delta ');
+		await vscode.workspace.applyEdit(edit);
+
+		assert.notStrictEqual(getDocumentationCacheKey(document, position, false), before);
+	});
+
+	test('Drops the least recently used entry when full', () => {
+		const renderer = new Renderer();
+		const cache = new DocumentationCache(2, renderer);
+		try {
+			cache.set('a', { document, parts: [] });
+			cache.set('b', { document, parts: [] });
+			assert.ok(cache.get('a'));
+
+			cache.set('c', { document, parts: [] });
+			assert.ok(cache.get('a'));
+			assert.strictEqual(cache.get('b'), undefined);
+			assert.ok(cache.get('c'));
+
+			assert.deepStrictEqual(cache.statistics, { size: 2, maxSize: 2, hits: 3, misses: 1 });
+		} finally {
+			cache.dispose();
+			renderer.dispose();
+		}
+	});
+
+	test('Editing a document drops the entries of other documents in the same language', async () => {
+		const renderer = new Renderer();
+		const cache = new DocumentationCache(10, renderer);
+		try {
+			const sameLanguage = await vscode.workspace.openTextDocument({ language: 'plaintext', content: 'delta' });
+			const otherLanguage = await vscode.workspace.openTextDocument({ language: 'markdown', content: 'epsilon' });
+			cache.set('same', { document: sameLanguage, parts: [] });
+			cache.set('other', { document: otherLanguage, parts: [] });
+
+			const edit = new vscode.WorkspaceEdit();
+			edit.insert(document.uri, new vscode.Position(0, 0), 'zeta ');
+			await vscode.workspace.applyEdit(edit);
+
+			assert.strictEqual(cache.get('same'), undefined);
+			assert.ok(cache.get('other'));
+		} finally {
+			cache.dispose();
+			renderer.dispose();
+		}
+	});
+});
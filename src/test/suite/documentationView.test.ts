@@ -0,0 +1,284 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ContentProviders } from '../../contentProviders';
+import { DocsViewViewProvider } from '../../docsView';
+import { DocumentationCache } from '../../documentationCache';
+import { cacheKeyEquals, createCacheKey, DocumentationView } from '../../documentationView';
+import { ExtensionMessage, protocolVersion } from '../../protocol';
+import { Renderer } from '../../renderer';
+import { StubHoverProvider, TestWebviewView, wait } from './testHost';
+
+const extensionUri = vscode.Uri.file(path.resolve(__dirname, '../../..'));
+
+/** Long enough for a cursor change to have been handled if it was going to be */
+const settleTime = 300;
+
+const alpha = new vscode.Position(0, 1);
+const beta = new vscode.Position(0, 7);
+const slow = new vscode.Position(0, 12);
+const gamma = new vscode.Position(2, 1);
+
+suite('DocumentationView', () => {
+
+	const disposables: vscode.Disposable[] = [];
+
+	let hoverProvider: StubHoverProvider;
+	let view: DocumentationView;
+	let webviewView: TestWebviewView;
+	let editor: vscode.TextEditor;
+
+	setup(async () => {
+		hoverProvider = new StubHoverProvider(new Map([
+			['alpha', { markdown: 'Docs for alpha' }],
+			['beta', { markdown: 'Docs for beta' }],
+			['slow', { markdown: 'Docs for slow', delay: 500 }],
+		]));
+		disposables.push(vscode.languages.registerHoverProvider({ language: 'plaintext' }, hoverProvider));
+
+		const document = await vscode.workspace.openTextDocument({ language: 'plaintext', content: 'alpha beta slow\n\ngamma' });
+		editor = await vscode.window.showTextDocument(document);
+		editor.selection = new vscode.Selection(gamma, gamma);
+
+		const renderer = new Renderer();
+		const cache = new DocumentationCache(10, renderer);
+		const contentProviders = new ContentProviders();
+		view = new DocumentationView(extensionUri, renderer, cache, contentProviders, {
+			id: 'documentationView',
+			progressLocation: vscode.ProgressLocation.Window,
+		});
+		disposables.push(renderer, cache, contentProviders, view);
+
+		webviewView = new TestWebviewView(DocsViewViewProvider.viewType);
+		new DocsViewViewProvider(view).resolveWebviewView(webviewView, { state: undefined }, new vscode.CancellationTokenSource().token);
+		await wait(settleTime);
+	});
+
+	teardown(async () => {
+		let item: vscode.Disposable | undefined;
+		while ((item = disposables.pop())) {
+			item.dispose();
+		}
+
+		await vscode.workspace.getConfiguration('docsView').update('documentationView.updateMode', undefined, vscode.ConfigurationTarget.Global);
+		await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+	});
+
+	function moveCursor(position: vscode.Position) {
+		editor.selection = new vscode.Selection(position, position);
+	}
+
+	function isUpdateFor(word: string) {
+		return (message: ExtensionMessage) => message.type === 'update' && message.body.includes(`Docs for ${word}`);
+	}
+
+	test('Shows docs for the word at the cursor', async () => {
+		const update = webviewView.webview.waitForMessage(isUpdateFor('alpha'));
+		moveCursor(alpha);
+		await update;
+
+		assert.strictEqual(view.getShownEntry()?.symbol, 'alpha');
+	});
+
+	test('Live mode clears the docs when there are none at the cursor', async () => {
+		const update = webviewView.webview.waitForMessage(isUpdateFor('alpha'));
+		moveCursor(alpha);
+		await update;
+
+		const noContent = webviewView.webview.waitForMessage(message => message.type === 'noContent');
+		moveCursor(gamma);
+		await noContent;
+
+		assert.strictEqual(view.getShownEntry(), undefined);
+	});
+
+	test('Sticky mode keeps showing the last docs', async () => {
+		await vscode.workspace.getConfiguration('docsView').update('documentationView.updateMode', 'sticky', vscode.ConfigurationTarget.Global);
+
+		const update = webviewView.webview.waitForMessage(isUpdateFor('alpha'));
+		moveCursor(alpha);
+		await update;
+
+		const messageCount = webviewView.webview.messages.length;
+		moveCursor(gamma);
+		await wait(settleTime);
+
+		assert.ok(hoverProvider.requestedWords.includes('gamma'));
+		assert.ok(!webviewView.webview.messages.slice(messageCount).some(message => message.type === 'noContent'));
+		assert.strictEqual(view.getShownEntry()?.symbol, 'alpha');
+	});
+
+	test('Pinned docs are not replaced when the cursor moves', async () => {
+		const update = webviewView.webview.waitForMessage(isUpdateFor('alpha'));
+		moveCursor(alpha);
+		await update;
+
+		view.pin();
+		assert.strictEqual(webviewView.description, '(pinned)');
+
+		moveCursor(beta);
+		await wait(settleTime);
+
+		assert.ok(hoverProvider.requestedWords.includes('beta'));
+		assert.ok(!webviewView.webview.messages.some(isUpdateFor('beta')));
+		assert.strictEqual(view.getShownEntry()?.symbol, 'alpha');
+
+		// The live slot kept tracking the cursor while pinned
+		const betaUpdate = webviewView.webview.waitForMessage(isUpdateFor('beta'));
+		view.unpin();
+		await betaUpdate;
+
+		assert.strictEqual(view.getShownEntry()?.symbol, 'beta');
+		assert.strictEqual(webviewView.description, undefined);
+	});
+
+	test('Moving the cursor cancels docs that are still loading', async () => {
+		moveCursor(slow);
+		await wait(50);
+
+		const update = webviewView.webview.waitForMessage(isUpdateFor('alpha'));
+		moveCursor(alpha);
+		await update;
+
+		// Wait until the slow hover has certainly returned
+		await wait(700);
+
+		assert.ok(hoverProvider.requestedWords.includes('slow'));
+		assert.ok(!webviewView.webview.messages.some(isUpdateFor('slow')));
+		assert.strictEqual(view.getShownEntry()?.symbol, 'alpha');
+	});
+
+	test('Does not request docs again while the cursor stays on the same word', async () => {
+		const update = webviewView.webview.waitForMessage(isUpdateFor('alpha'));
+		moveCursor(alpha);
+		await update;
+
+		const requestCount = hoverProvider.requestedWords.length;
+		moveCursor(alpha.translate(0, 2));
+		await wait(settleTime);
+
+		assert.strictEqual(hoverProvider.requestedWords.length, requestCount);
+	});
+
+	test('Docs shown through the api are kept when the view is shown again', async () => {
+		view.showDocumentation({ symbol: 'api', uri: editor.document.uri, position: alpha, markdown: 'Docs for api', html: '<p>Docs for api</p>' }, false);
+
+		const messageCount = webviewView.webview.messages.length;
+		view.refresh();
+		await wait(settleTime);
+
+		const messages = webviewView.webview.messages.slice(messageCount);
+		assert.ok(messages.some(isUpdateFor('api')));
+		assert.ok(!messages.some(message => message.type === 'noContent'));
+		assert.strictEqual(view.getShownEntry()?.symbol, 'api');
+	});
+
+	test('Shows an error when a searched symbol can no longer be opened', async () => {
+		const missing = vscode.Uri.file(path.join(__dirname, 'missing.ts'));
+		disposables.push(vscode.languages.registerWorkspaceSymbolProvider({
+			provideWorkspaceSymbols: () => [new vscode.SymbolInformation('missingSymbol', vscode.SymbolKind.Function, '', new vscode.Location(missing, alpha))],
+		}));
+
+		const results = webviewView.webview.waitForMessage(message => message.type === 'searchResults' && message.results.length > 0);
+		webviewView.webview.receive({ type: 'search', query: 'missingSymbol' });
+		await results;
+
+		const error = webviewView.webview.waitForMessage(message => message.type === 'error');
+		webviewView.webview.receive({ type: 'selectSymbol', index: 0 });
+		const message = await error;
+
+		assert.ok(message.type === 'error' && message.message.includes('missingSymbol'));
+
+	});
+
+	test('Tells hosts the title of the shown docs', async () => {
+		const titles: Array<string | undefined> = [];
+		view.attach({ webview: webviewView.webview, setDescription: () => { }, setTitle: title => titles.push(title) });
+
+		const update = webviewView.webview.waitForMessage(isUpdateFor('alpha'));
+		moveCursor(alpha);
+		await update;
+		assert.strictEqual(titles[titles.length - 1], 'alpha');
+
+		view.showDocumentation({ symbol: 'api', uri: editor.document.uri, position: alpha, markdown: 'Docs for api', html: '<p>Docs for api</p>' }, false);
+		assert.strictEqual(titles[titles.length - 1], 'api');
+	});
+
+	test('Sends the ui state that the webview reported when it is ready again', async () => {
+		webviewView.webview.receive({ type: 'state', state: { collapsedSources: ['definition'] } });
+
+		const state = webviewView.webview.waitForMessage(message => message.type === 'state');
+		webviewView.webview.receive({ type: 'ready', version: protocolVersion });
+
+		assert.deepStrictEqual(await state, { type: 'state', state: { collapsedSources: ['definition'] } });
+	});
+
+	test('Reloads a webview that runs a script for another protocol version', async () => {
+		const html = webviewView.webview.html;
+		webviewView.webview.receive({ type: 'ready', version: protocolVersion + 1 });
+
+		assert.notStrictEqual(webviewView.webview.html, html);
+		assert.ok(!webviewView.webview.messages.some(message => message.type === 'state'));
+	});
+});
+
+suite('DocumentCacheKey', () => {
+
+	let editor: vscode.TextEditor;
+
+	setup(async () => {
+		const document = await vscode.workspace.openTextDocument({ language: 'plaintext', content: 'alpha beta\n  \ngamma' });
+		editor = await vscode.window.showTextDocument(document);
+	});
+
+	teardown(async () => {
+		await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+	});
+
+	function keyAt(position: vscode.Position, includePosition = false) {
+		editor.selection = new vscode.Selection(position, position);
+		return createCacheKey(editor, includePosition);
+	}
+
+	test('Positions on the same word are equal', () => {
+		assert.ok(cacheKeyEquals(keyAt(new vscode.Position(0, 0)), keyAt(new vscode.Position(0, 4))));
+	});
+
+	test('Different words are not equal', () => {
+		assert.ok(!cacheKeyEquals(keyAt(new vscode.Position(0, 1)), keyAt(new vscode.Position(0, 7))));
+	});
+
+	test('Positions outside of words are only equal to themselves', () => {
+		assert.ok(cacheKeyEquals(keyAt(new vscode.Position(1, 0)), keyAt(new vscode.Position(1, 0))));
+		assert.ok(!cacheKeyEquals(keyAt(new vscode.Position(1, 0)), keyAt(new vscode.Position(1, 2))));
+		assert.ok(!cacheKeyEquals(keyAt(new vscode.Position(1, 0)), keyAt(new vscode.Position(0, 1))));
+	});
+
+	test('Other documents are not equal', async () => {
+		const key = keyAt(new vscode.Position(0, 1));
+
+		const other = await vscode.workspace.openTextDocument({ language: 'plaintext', content: 'alpha beta\n\ngamma' });
+		editor = await vscode.window.showTextDocument(other);
+		assert.ok(!cacheKeyEquals(key, keyAt(new vscode.Position(0, 1))));
+	});
+
+	test('Editing the document changes the key', async () => {
+		const key = keyAt(new vscode.Position(0, 1));
+
+		await editor.edit(edit => edit.insert(new vscode.Position(2, 0), 'delta '));
+		assert.ok(!cacheKeyEquals(key, keyAt(new vscode.Position(0, 1))));
+	});
+
+	test('Includes the exact position when signature help is shown', () => {
+		assert.ok(!cacheKeyEquals(keyAt(new vscode.Position(0, 0), true), keyAt(new vscode.Position(0, 4), true)));
+		assert.ok(cacheKeyEquals(keyAt(new vscode.Position(0, 4), true), keyAt(new vscode.Position(0, 4), true)));
+
+		// Keys from before the setting changed are not reused
+		assert.ok(!cacheKeyEquals(keyAt(new vscode.Position(0, 4), false), keyAt(new vscode.Position(0, 4), true)));
+	});
+
+	test('Without an editor', () => {
+		assert.ok(cacheKeyEquals(createCacheKey(undefined), createCacheKey(undefined)));
+		assert.ok(!cacheKeyEquals(createCacheKey(undefined), keyAt(new vscode.Position(0, 1))));
+	});
+});
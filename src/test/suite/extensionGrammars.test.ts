@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { ExtensionGrammars } from '../../extensionGrammars';
+
+suite('ExtensionGrammars', () => {
+
+	let grammars: ExtensionGrammars;
+
+	suiteSetup(() => {
+		grammars = new ExtensionGrammars();
+	});
+
+	suiteTeardown(() => {
+		grammars.dispose();
+	});
+
+	test('Finds languages by id', () => {
+		assert.strictEqual(grammars.getLanguageId('typescript'), 'typescript');
+		assert.strictEqual(grammars.getLanguageId('python'), 'python');
+	});
+
+	test('Finds languages by alias, ignoring case', () => {
+		assert.strictEqual(grammars.getLanguageId('TypeScript'), 'typescript');
+		assert.strictEqual(grammars.getLanguageId('JAVASCRIPT'), 'javascript');
+	});
+
+	test('Finds languages by file extension', () => {
+		assert.strictEqual(grammars.getLanguageId('ts'), 'typescript');
+		assert.strictEqual(grammars.getLanguageId('py'), 'python');
+		assert.strictEqual(grammars.getLanguageId('.rs'), 'rust');
+	});
+
+	test('Returns undefined for unknown languages', () => {
+		assert.strictEqual(grammars.getLanguageId('not-a-language'), undefined);
+	});
+
+	test('Finds the grammars of built-in languages', () => {
+		assert.strictEqual(grammars.getGrammar('typescript')?.scopeName, 'source.ts');
+		assert.strictEqual(grammars.getGrammar('not-a-language'), undefined);
+	});
+});
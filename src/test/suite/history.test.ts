@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { History, HistoryEntry, maxPersistedHtmlLength } from '../../history';
+
+suite('History', () => {
+
+	function createEntry(symbol: string, html = `<p>${symbol}</p>`): HistoryEntry {
+		return { symbol, uri: vscode.Uri.parse('untitled:test'), position: new vscode.Position(0, 0), markdown: symbol, html };
+	}
+
+	function createMemento(): vscode.Memento & { readonly values: Map<string, any> } {
+		const values = new Map<string, any>();
+		return {
+			values,
+			keys: () => Array.from(values.keys()),
+			get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+			update: async (key: string, value: unknown) => { values.set(key, value); },
+		} as vscode.Memento & { readonly values: Map<string, any> };
+	}
+
+	test('Replacing the current entry keeps the entries after it', () => {
+		const history = new History(10);
+		history.push(createEntry('alpha'));
+		history.push(createEntry('beta'));
+		history.back();
+
+		history.replaceCurrent(createEntry('alpha', '<p>alpha again</p>'));
+
+		assert.strictEqual(history.current?.html, '<p>alpha again</p>');
+		assert.strictEqual(history.forward()?.symbol, 'beta');
+	});
+
+	test('Persists once disposed', () => {
+		const memento = createMemento();
+		const history = new History(10, 'history', memento);
+		history.push(createEntry('alpha'));
+		assert.strictEqual(memento.values.get('history'), undefined, 'writes should wait for further changes');
+
+		history.dispose();
+
+		const restored = new History(10, 'history', memento);
+		assert.strictEqual(restored.current?.symbol, 'alpha');
+	});
+
+	test('Persists the entries on both sides of the current one', () => {
+		const memento = createMemento();
+		const history = new History(50, 'history', memento);
+		for (let i = 0; i < 30; i++) {
+			history.push(createEntry(`symbol${i}`));
+		}
+		history.dispose();
+
+		const restored = new History(50, 'history', memento);
+		assert.strictEqual(restored.current?.symbol, 'symbol29');
+		assert.strictEqual(restored.back()?.symbol, 'symbol28', 'older entries should be kept when the newest one is shown');
+
+		for (let i = 0; i < 10; i++) {
+			history.back();
+		}
+		history.dispose();
+
+		const restoredInMiddle = new History(50, 'history', memento);
+		assert.strictEqual(restoredInMiddle.current?.symbol, 'symbol19');
+		assert.strictEqual(restoredInMiddle.back()?.symbol, 'symbol18');
+		assert.strictEqual(restoredInMiddle.forward()?.symbol, 'symbol19');
+		assert.strictEqual(restoredInMiddle.forward()?.symbol, 'symbol20');
+	});
+
+	test('Leaves out the entries furthest from the current one when their html is too large', () => {
+		const memento = createMemento();
+		const history = new History(10, 'history', memento);
+		const html = 'x'.repeat(maxPersistedHtmlLength / 2);
+		history.push(createEntry('alpha', html));
+		history.push(createEntry('beta', html));
+		history.push(createEntry('gamma', html));
+		history.back();
+		history.dispose();
+
+		const restored = new History(10, 'history', memento);
+		assert.strictEqual(restored.current?.symbol, 'beta');
+		assert.strictEqual(restored.canGoForward, false);
+		assert.strictEqual(restored.back()?.symbol, 'alpha');
+		assert.strictEqual(restored.canGoBack, false);
+	});
+});
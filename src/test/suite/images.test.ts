@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { getDocumentFolder, getImageRoots, resolveImages } from '../../images';
+import { TestWebview } from './testHost';
+
+suite('Images', () => {
+
+	const webview = new TestWebview();
+	const document = vscode.Uri.file('/project/src/module.ts');
+	const roots = [vscode.Uri.file('/project/src')];
+
+	function resolve(html: string) {
+		return resolveImages(html, document, webview, roots);
+	}
+
+	test('Loads images next to the document through the webview', () => {
+		const { html, hasLocalImages } = resolve('<img src="./diagram.png" alt="Diagram">');
+
+		assert.match(html, /src="https:\/\/[^"]*vscode-resource[^"]*\/project\/src\/diagram\.png"/);
+		assert.ok(hasLocalImages);
+	});
+
+	test('Blocks local images outside of the roots', () => {
+		for (const src of ['/x.png', 'file:///etc/x.png', '../x.png', 'images/../../x.png']) {
+			const { html, hasLocalImages } = resolve(`<img src="${src}" alt="Outside">`);
+
+			assert.ok(!html.includes('<img'), `${src} should be blocked`);
+			assert.ok(html.includes('class="blocked-image"'));
+			assert.ok(!hasLocalImages);
+		}
+	});
+
+	test('Leaves remote and data images alone', () => {
+		const images = '<img src="https://example.com/x.png"><img src="data:image/png;base64,AA==">';
+		assert.deepStrictEqual(resolve(images), { html: images, hasLocalImages: false });
+	});
+
+	test('Only allows the folder of documents outside of the workspace', () => {
+		assert.strictEqual(getDocumentFolder(vscode.Uri.parse('untitled:Documentation')), undefined);
+		assert.strictEqual(getDocumentFolder(document)?.path, '/project/src');
+
+		const roots = getImageRoots(document).map(root => root.path);
+		assert.ok(roots.includes('/project/src'));
+		assert.ok(!roots.includes('/'));
+	});
+});
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { maxPersistedHtmlLength } from '../../history';
+import { PinnedEntries } from '../../pinnedEntries';
+
+suite('PinnedEntries', () => {
+
+	function createMemento(): vscode.Memento {
+		const values = new Map<string, any>();
+		return {
+			keys: () => Array.from(values.keys()),
+			get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+			update: async (key: string, value: unknown) => { values.set(key, value); },
+		} as vscode.Memento;
+	}
+
+	test('Only persists the pins whose html fits in the limit', () => {
+		const memento = createMemento();
+		const pins = new PinnedEntries('pins', memento);
+		const uri = vscode.Uri.parse('untitled:test');
+		const position = new vscode.Position(0, 0);
+		pins.add({ symbol: 'alpha', uri, position, markdown: 'alpha', html: 'x'.repeat(maxPersistedHtmlLength - 10) });
+		pins.add({ symbol: 'beta', uri, position, markdown: 'beta', html: 'x'.repeat(100) });
+		pins.add({ symbol: 'gamma', uri, position, markdown: 'gamma', html: '<p>gamma</p>' });
+
+		const restored = new PinnedEntries('pins', memento);
+		assert.deepStrictEqual(restored.entries.map(entry => entry.symbol), ['alpha']);
+
+		pins.remove(restored.entries[0].id);
+		assert.deepStrictEqual(new PinnedEntries('pins', memento).entries.map(entry => entry.symbol), ['beta', 'gamma']);
+	});
+
+	test('Replaces a pin that still exists', () => {
+		const pins = new PinnedEntries('pins', undefined);
+		const pinned = pins.add({ symbol: 'alpha', uri: vscode.Uri.parse('untitled:test'), position: new vscode.Position(0, 0), markdown: 'alpha', html: '<p>alpha</p>' });
+
+		assert.ok(pins.replace({ ...pinned, html: '<p>alpha again</p>' }));
+		assert.strictEqual(pins.get(pinned.id)?.html, '<p>alpha again</p>');
+
+		pins.remove(pinned.id);
+		assert.ok(!pins.replace(pinned));
+		assert.strictEqual(pins.entries.length, 0);
+	});
+});
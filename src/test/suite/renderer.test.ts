@@ -0,0 +1,147 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { Renderer } from '../../renderer';
+import { defaultSourcesConfiguration } from '../../sources';
+import { assertSnapshot } from './snapshots';
+
+suite('Renderer', () => {
+
+	let renderer: Renderer;
+
+	suiteSetup(() => {
+		renderer = new Renderer();
+	});
+
+	suiteTeardown(() => {
+		renderer.dispose();
+	});
+
+	function render(...contents: Array<string | vscode.MarkdownString>) {
+		return renderer.render('plaintext', contents.map(content => new vscode.Hover(content)));
+	}
+
+	test('Renders markdown', async () => {
+		const { html } = await render([
+			'# Title',
+			'',
+			'Some *emphasis*, `code` and a [link](https://example.com).',
+			'',
+			'- one',
+			'- two',
+			'',
+			'| a | b |',
+			'|---|---|',
+			'| 1 | 2 |',
+		].join('\n'));
+
+		assertSnapshot('markdown', html);
+	});
+
+	test('Highlights code fences', async () => {
+		const { html } = await render([
+			'```ts',
+			'const value: number = 1;',
+			'```',
+		].join('\n'));
+
+		assert.ok(html.includes('class="shiki'), 'code should be highlighted');
+		assertSnapshot('code-fence', withoutThemeColors(html));
+		assertSnapshot('code-fence-tokens', withNumberedColors(html));
+	});
+
+	test('Uses the default language for code fences without one', async () => {
+		const { html } = await renderer.render('typescript', [new vscode.Hover('```\nconst value = 1;\n```')]);
+
+		assert.ok(html.includes('class="shiki'), 'code should be highlighted');
+		assertSnapshot('code-fence-default-language', withoutThemeColors(html));
+	});
+
+	test('Leaves code fences unhighlighted once cancelled', async () => {
+		const cts = new vscode.CancellationTokenSource();
+		cts.cancel();
+		const parts = renderer.getParts([new vscode.Hover('```ts\nconst tag = "<b>";\n```')]);
+		const { html } = await renderer.renderParts('plaintext', parts, defaultSourcesConfiguration, undefined, cts.token);
+
+		assert.ok(!html.includes('class="shiki'), 'code should not be highlighted');
+		assert.ok(html.includes('data-code-block="0"'));
+		assert.ok(html.includes('&lt;b&gt;'), 'code should be escaped');
+	});
+
+	test('Adds source headers only when the configuration shows them', async () => {
+		const parts = [
+			{ markdown: 'first', trust: false, source: 'hover' },
+			{ markdown: 'second', trust: false, source: 'diagnostics' },
+		];
+
+		const withHeaders = await renderer.renderParts('plaintext', parts, defaultSourcesConfiguration);
+		assert.ok(withHeaders.html.includes('class="source-header">Problems'));
+
+		const withoutHeaders = await renderer.renderParts('plaintext', parts, { ...defaultSourcesConfiguration, showHeaders: false });
+		assert.ok(!withoutHeaders.html.includes('source-header'));
+		assert.ok(withoutHeaders.html.includes('<hr>'));
+	});
+
+	test('Joins hovers with horizontal rules', async () => {
+		const { markdown, html } = await render('first', 'second');
+
+		assert.strictEqual(markdown, 'first\n---\nsecond');
+		assertSnapshot('multiple-hovers', html);
+	});
+
+	test('Removes hostile html', async () => {
+		const { html } = await render([
+			'<script>alert(1)</script>',
+			'<img src="x" onerror="alert(1)">',
+			'<a href="javascript:alert(1)">js</a>',
+			'<iframe src="https://example.com"></iframe>',
+			'<button onclick="alert(1)">click</button>',
+		].join('\n\n'));
+
+		for (const forbidden of ['<script', 'onerror', 'onclick', 'javascript:', '<iframe']) {
+			assert.ok(!html.includes(forbidden), `html should not contain ${forbidden}`);
+		}
+		assertSnapshot('hostile-html', html);
+	});
+
+	test('Only keeps command links in trusted markdown', async () => {
+		const untrusted = new vscode.MarkdownString('[run](command:workbench.action.quit)');
+
+		const trusted = new vscode.MarkdownString('[allowed](command:test.allowed) [other](command:workbench.action.quit)');
+		trusted.isTrusted = { enabledCommands: ['test.allowed'] };
+
+		const { html } = await render(untrusted, trusted);
+
+		assert.ok(html.includes('href="command:test.allowed"'));
+		assert.ok(!html.includes('command:workbench.action.quit'));
+		assertSnapshot('command-links', html);
+	});
+});
+
+/**
+ * Replace the colors of highlighted code with numbers in the order that they first appear, which keeps the token spans.
+ * The default dark themes of VS Code share their token colors, so the spans are the same with each of them.
+ */
+function withNumberedColors(html: string): string {
+	const colors = new Map<string, number>();
+	return html
+		.replace(/(<pre[^>]*?) style="[^"]*"/g, '$1')
+		.replace(/color: ?(#[0-9a-fA-F]+)/g, (_, color: string) => {
+			const key = color.toLowerCase();
+			if (!colors.has(key)) {
+				colors.set(key, colors.size + 1);
+			}
+			return `color: ${colors.get(key)}`;
+		})
+		.replace(/class="shiki [^"]*"/g, 'class="shiki"');
+}
+
+/**
+ * Leave out the colors of highlighted code, which depend on the color theme of the VS Code instance that runs the tests.
+ * Tokens with the same color are joined, so the token spans are left out too.
+ */
+function withoutThemeColors(html: string): string {
+	return html
+		.replace(/<\/?span[^>]*>/g, '')
+		.replace(/ style="[^"]*"/g, '')
+		.replace(/class="shiki [^"]*"/g, 'class="shiki"');
+}
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { getRecentRequests, getRequestSummary, startRequest } from '../../requestLog';
+
+suite('RequestLog', () => {
+
+	let document: vscode.TextDocument;
+
+	suiteSetup(async () => {
+		document = await vscode.workspace.openTextDocument({ language: 'plaintext', content: 'alpha' });
+	});
+
+	test('Records the outcome and timings of requests', async () => {
+		const request = startRequest('testView', document, new vscode.Position(0, 2));
+		await request.timeHovers(Promise.resolve([1, 2]));
+		request.finish('shown', { render: { parse: 1, highlight: 2, sanitize: 3 } });
+
+		const record = getRecentRequests()[getRecentRequests().length - 1];
+		assert.strictEqual(record.view, 'testView');
+		assert.ok(record.location.endsWith(':1:3'));
+		assert.strictEqual(record.outcome, 'shown');
+		assert.strictEqual(record.parts, 2);
+		assert.ok(record.hovers !== undefined);
+		assert.deepStrictEqual(record.render, { parse: 1, highlight: 2, sanitize: 3 });
+	});
+
+	test('Summarizes failed requests with their error', () => {
+		startRequest('testView', document, new vscode.Position(0, 0)).finish('failed', { error: new Error('Shiki exploded') });
+
+		const summary = getRequestSummary();
+		assert.ok(summary.includes('failed: Error: Shiki exploded'));
+		assert.match(summary, /\d+ failed/);
+	});
+});
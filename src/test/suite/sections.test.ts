@@ -0,0 +1,19 @@
+import * as assert from 'assert';
+import { getParameterOffsets } from '../../sections';
+
+suite('Sections', () => {
+
+	test('Finds a parameter whose name is also part of the function name', () => {
+		assert.deepStrictEqual(getParameterOffsets('max(a, b)', 'a'), [4, 5]);
+		assert.deepStrictEqual(getParameterOffsets('box(x: number): void', 'x: number'), [4, 13]);
+	});
+
+	test('Only matches whole parameter names', () => {
+		assert.deepStrictEqual(getParameterOffsets('fn(value, v)', 'v'), [10, 11]);
+		assert.deepStrictEqual(getParameterOffsets('fn(value)', 'v'), [-1, -1]);
+	});
+
+	test('Uses the offsets that the provider gave', () => {
+		assert.deepStrictEqual(getParameterOffsets('max(a, b)', [7, 8]), [7, 8]);
+	});
+});
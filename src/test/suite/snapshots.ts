@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Snapshots are kept with the test sources, not the compiled tests in `out` */
+const snapshotsRoot = path.resolve(__dirname, '../../../src/test/suite/__snapshots__');
+
+/**
+ * Compare `actual` to the stored snapshot with the same name.
+ *
+ * Set `UPDATE_SNAPSHOTS=1` to write missing snapshots and overwrite the stored ones, such as after upgrading a dependency on purpose.
+ * Snapshots are never written when `CI` is set, so that a missing snapshot fails there instead of passing unchecked.
+ */
+export function assertSnapshot(name: string, actual: string) {
+	const file = path.join(snapshotsRoot, `${name}.snap.html`);
+	if (process.env.UPDATE_SNAPSHOTS && !process.env.CI) {
+		fs.mkdirSync(snapshotsRoot, { recursive: true });
+		fs.writeFileSync(file, actual);
+		return;
+	}
+
+	if (!fs.existsSync(file)) {
+		assert.fail(`Snapshot '${name}' is missing. Run the tests with UPDATE_SNAPSHOTS=1 to write it.`);
+	}
+	assert.strictEqual(actual, fs.readFileSync(file, 'utf8'), `Snapshot '${name}' changed. Run the tests with UPDATE_SNAPSHOTS=1 if this is expected.`);
+}
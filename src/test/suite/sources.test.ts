@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { RenderPart } from '../../renderer';
+import { arrangeParts, SourcesConfiguration } from '../../sources';
+
+suite('Sources', () => {
+
+	const defaults: SourcesConfiguration = { patterns: [], order: [], hidden: [], hideMatching: [], deduplicate: true, showHeaders: true };
+
+	function part(source: string, markdown: string): RenderPart {
+		return { source, markdown, trust: false };
+	}
+
+	function arrange(parts: RenderPart[], config: Partial<SourcesConfiguration> = {}): string[] {
+		return arrangeParts(parts, { ...defaults, ...config }).map(part => `${part.source}: ${part.markdown}`);
+	}
+
+	test('Keeps the original order by default', () => {
+		assert.deepStrictEqual(
+			arrange([part('signatureHelp', 'a'), part('hover', 'b'), part('definition', 'c')]),
+			['signatureHelp: a', 'hover: b', 'definition: c']);
+	});
+
+	test('Shows the listed sources first and keeps parts from the same source together', () => {
+		assert.deepStrictEqual(
+			arrange([part('hover', 'a'), part('tests', 'b'), part('hover', 'c'), part('definition', 'd')], { order: ['definition', 'hover'] }),
+			['definition: d', 'hover: a', 'hover: c', 'tests: b']);
+	});
+
+	test('Names hovers that match a pattern', () => {
+		assert.deepStrictEqual(
+			arrange([part('hover', 'docs'), part('hover', 'Blame by GitLens')], { patterns: [{ source: 'GitLens', pattern: /gitlens/i }] }),
+			['hover: docs', 'GitLens: Blame by GitLens']);
+	});
+
+	test('Hides sources and matching content', () => {
+		assert.deepStrictEqual(
+			arrange(
+				[part('hover', 'docs'), part('hover', 'Blame by GitLens'), part('definition', 'link'), part('hover', 'Suggested by Copilot')],
+				{ patterns: [{ source: 'GitLens', pattern: /gitlens/i }], hidden: ['GitLens', 'definition'], hideMatching: [/copilot/i] }),
+			['hover: docs']);
+	});
+
+	test('Drops content that repeats content above it', () => {
+		assert.deepStrictEqual(
+			arrange([
+				part('signatureHelp', '<pre class="signature"><code>add(a: number, b: number): number</code></pre>\n\nAdds numbers'),
+				part('hover', '```ts\nadd(a: number,  b: number): number\n```'),
+				part('hover', 'Adds  *numbers*'),
+				part('hover', 'Other docs'),
+			]),
+			['signatureHelp: <pre class="signature"><code>add(a: number, b: number): number</code></pre>\n\nAdds numbers', 'hover: Other docs']);
+	});
+
+	test('Keeps repeated content when de-duplication is disabled', () => {
+		assert.deepStrictEqual(
+			arrange([part('hover', 'same'), part('hover', 'same')], { deduplicate: false }),
+			['hover: same', 'hover: same']);
+	});
+});
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { ExtensionMessage, WebviewMessage } from '../../protocol';
+
+/**
+ * A webview that records the messages posted to it instead of showing them.
+ */
+export class TestWebview implements vscode.Webview {
+
+	public options: vscode.WebviewOptions = {};
+	public html = '';
+	public readonly cspSource = 'https://test.vscode-cdn.net';
+
+	public readonly messages: ExtensionMessage[] = [];
+
+	private readonly _onDidReceiveMessage = new vscode.EventEmitter<WebviewMessage>();
+	public readonly onDidReceiveMessage = this._onDidReceiveMessage.event;
+
+	private readonly _waiters: Array<{ predicate: (message: ExtensionMessage) => boolean; resolve: (message: ExtensionMessage) => void }> = [];
+
+	public postMessage(message: ExtensionMessage): Thenable<boolean> {
+		this.messages.push(message);
+		for (const waiter of [...this._waiters]) {
+			if (waiter.predicate(message)) {
+				this._waiters.splice(this._waiters.indexOf(waiter), 1);
+				waiter.resolve(message);
+			}
+		}
+		return Promise.resolve(true);
+	}
+
+	public asWebviewUri(localResource: vscode.Uri): vscode.Uri {
+		return localResource.with({ scheme: 'https', authority: 'file+.vscode-resource.vscode-cdn.net' });
+	}
+
+	/**
+	 * Simulate a message sent by the webview's script.
+	 */
+	public receive(message: WebviewMessage) {
+		this._onDidReceiveMessage.fire(message);
+	}
+
+	/**
+	 * Wait for the next message matching `predicate` that is posted after this call.
+	 */
+	public waitForMessage(predicate: (message: ExtensionMessage) => boolean, timeout = 5000): Promise<ExtensionMessage> {
+		return new Promise((resolve, reject) => {
+			const waiter = { predicate, resolve };
+			this._waiters.push(waiter);
+			setTimeout(() => {
+				const index = this._waiters.indexOf(waiter);
+				if (index >= 0) {
+					this._waiters.splice(index, 1);
+					reject(new Error('Timed out waiting for webview message'));
+				}
+			}, timeout);
+		});
+	}
+}
+
+/**
+ * A webview view that is always visible, for driving a `WebviewViewProvider` without the workbench.
+ */
+export class TestWebviewView implements vscode.WebviewView {
+
+	public readonly webview = new TestWebview();
+	public title?: string;
+	public description?: string;
+	public badge?: vscode.ViewBadge;
+	public readonly visible = true;
+
+	private readonly _onDidDispose = new vscode.EventEmitter<void>();
+	public readonly onDidDispose = this._onDidDispose.event;
+
+	private readonly _onDidChangeVisibility = new vscode.EventEmitter<void>();
+	public readonly onDidChangeVisibility = this._onDidChangeVisibility.event;
+
+	constructor(
+		public readonly viewType: string,
+	) { }
+
+	public show() {
+		// Always visible
+	}
+
+	public dispose() {
+		this._onDidDispose.fire();
+	}
+}
+
+export interface StubDocumentation {
+	readonly markdown: string;
+
+	/** How long to wait before returning the hover, in milliseconds */
+	readonly delay?: number;
+}
+
+/**
+ * Returns canned hovers for words, and counts how often it was asked for them.
+ */
+export class StubHoverProvider implements vscode.HoverProvider {
+
+	public readonly requestedWords: string[] = [];
+
+	constructor(
+		private readonly _docs: ReadonlyMap<string, StubDocumentation>,
+	) { }
+
+	public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+		const range = document.getWordRangeAtPosition(position);
+		const word = range ? document.getText(range) : '';
+		this.requestedWords.push(word);
+
+		const docs = this._docs.get(word);
+		if (!docs) {
+			return undefined;
+		}
+
+		if (docs.delay) {
+			await wait(docs.delay);
+		}
+		return new vscode.Hover(new vscode.MarkdownString(docs.markdown), range);
+	}
+}
+
+export function wait(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,176 @@
+import json5 from 'json5';
+import * as vscode from 'vscode';
+
+declare const TextDecoder: any;
+
+/**
+ * Contents of a VS Code color theme file.
+ */
+export interface ColorThemeJson {
+	readonly name?: string;
+	readonly type?: string;
+	readonly include?: string;
+	readonly colors?: Record<string, string>;
+	readonly tokenColors?: TokenColorRule[] | string;
+}
+
+export interface TokenColorRule {
+	readonly name?: string;
+	readonly scope?: string | string[];
+	readonly settings: {
+		readonly foreground?: string;
+		readonly background?: string;
+		readonly fontStyle?: string;
+	};
+}
+
+/**
+ * Get the name of the theme that is currently active.
+ *
+ * This is not always `workbench.colorTheme` since VS Code can switch themes automatically to match the OS.
+ */
+export function getCurrentThemeName(): string | undefined {
+	const workbenchConfig = vscode.workspace.getConfiguration('workbench');
+	const windowConfig = vscode.workspace.getConfiguration('window');
+	const colorTheme = workbenchConfig.get<string>('colorTheme');
+
+	switch (vscode.window.activeColorTheme.kind) {
+		case vscode.ColorThemeKind.HighContrast:
+		case vscode.ColorThemeKind.HighContrastLight: {
+			// The user may have picked a high contrast theme themselves
+			if (colorTheme && isHighContrastTheme(colorTheme)) {
+				return colorTheme;
+			}
+			if (windowConfig.get<boolean>('autoDetectHighContrast', true)) {
+				return vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.HighContrast
+					? workbenchConfig.get<string>('preferredHighContrastColorTheme')
+					: workbenchConfig.get<string>('preferredHighContrastLightColorTheme');
+			}
+			return colorTheme;
+		}
+		case vscode.ColorThemeKind.Light:
+		case vscode.ColorThemeKind.Dark: {
+			if (windowConfig.get<boolean>('autoDetectColorScheme', false)) {
+				return vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Light
+					? workbenchConfig.get<string>('preferredLightColorTheme')
+					: workbenchConfig.get<string>('preferredDarkColorTheme');
+			}
+			return colorTheme;
+		}
+		default:
+			return colorTheme;
+	}
+}
+
+export function getCurrentThemePath(themeName: string): vscode.Uri | undefined {
+	const theme = findThemeContribution(themeName);
+	return theme && vscode.Uri.joinPath(theme.extensionUri, theme.contribution.path);
+}
+
+function isHighContrastTheme(themeName: string): boolean {
+	const uiTheme = findThemeContribution(themeName)?.contribution.uiTheme;
+	return uiTheme === 'hc-black' || uiTheme === 'hc-light';
+}
+
+function findThemeContribution(themeName: string): { extensionUri: vscode.Uri; contribution: any } | undefined {
+	for (const ext of vscode.extensions.all) {
+		const themes = ext.packageJSON.contributes && ext.packageJSON.contributes.themes;
+		if (!themes) {
+			continue;
+		}
+
+		const theme = themes.find((theme: any) => theme.label === themeName || theme.id === themeName);
+		if (theme) {
+			return { extensionUri: ext.extensionUri, contribution: theme };
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Load a theme file, merging in the themes it `include`s.
+ */
+export async function loadColorTheme(uri: vscode.Uri, seen = new Set<string>()): Promise<ColorThemeJson> {
+	if (seen.has(uri.toString())) {
+		throw new Error(`Circular theme include: ${uri.toString()}`);
+	}
+	seen.add(uri.toString());
+
+	const theme = await readJson<ColorThemeJson>(uri);
+
+	let tokenColors: TokenColorRule[] = [];
+	if (Array.isArray(theme.tokenColors)) {
+		tokenColors = theme.tokenColors;
+	} else if (typeof theme.tokenColors === 'string' && /\.json$/i.test(theme.tokenColors)) {
+		// Token colors may also live in their own file
+		const tokenColorsFile = await readJson<{ tokenColors?: TokenColorRule[] } | TokenColorRule[]>(vscode.Uri.joinPath(uri, '..', theme.tokenColors));
+		tokenColors = (Array.isArray(tokenColorsFile) ? tokenColorsFile : tokenColorsFile.tokenColors) ?? [];
+	}
+
+	if (!theme.include) {
+		return { ...theme, tokenColors };
+	}
+
+	const parent = await loadColorTheme(vscode.Uri.joinPath(uri, '..', theme.include), seen);
+	return {
+		...theme,
+		include: undefined,
+		type: theme.type ?? parent.type,
+		colors: { ...parent.colors, ...theme.colors },
+		tokenColors: [...(parent.tokenColors as TokenColorRule[]), ...tokenColors],
+	};
+}
+
+// Scopes used by VS Code for the simple `editor.tokenColorCustomizations` settings
+const tokenGroupScopes: Record<string, string[]> = {
+	comments: ['comment', 'punctuation.definition.comment'],
+	strings: ['string', 'meta.embedded.assembly'],
+	keywords: ['keyword - keyword.operator', 'keyword.control', 'storage', 'storage.type'],
+	numbers: ['constant.numeric'],
+	types: ['entity.name.type', 'entity.name.class', 'support.type', 'support.class'],
+	functions: ['entity.name.function', 'support.function'],
+	variables: ['variable', 'entity.name.variable'],
+};
+
+/**
+ * Get the token color rules that the user has added for a theme using `editor.tokenColorCustomizations`.
+ */
+export function getTokenColorCustomizations(themeName: string): TokenColorRule[] {
+	const customizations = vscode.workspace.getConfiguration('editor').get<Record<string, any>>('tokenColorCustomizations');
+	if (!customizations) {
+		return [];
+	}
+
+	return [
+		...getCustomizationRules(customizations),
+		// Theme specific customizations take precedence
+		...getCustomizationRules(customizations[`[${themeName}]`]),
+	];
+}
+
+function getCustomizationRules(customizations: Record<string, any> | undefined): TokenColorRule[] {
+	if (!customizations || typeof customizations !== 'object') {
+		return [];
+	}
+
+	const rules: TokenColorRule[] = [];
+	for (const [group, scope] of Object.entries(tokenGroupScopes)) {
+		const value = customizations[group];
+		if (typeof value === 'string') {
+			rules.push({ scope, settings: { foreground: value } });
+		} else if (value && typeof value === 'object') {
+			rules.push({ scope, settings: { foreground: value.foreground, fontStyle: value.fontStyle } });
+		}
+	}
+
+	if (Array.isArray(customizations.textMateRules)) {
+		rules.push(...customizations.textMateRules.filter((rule: any) => rule && typeof rule.settings === 'object'));
+	}
+	return rules;
+}
+
+async function readJson<T>(uri: vscode.Uri): Promise<T> {
+	const buffer = await vscode.workspace.fs.readFile(uri);
+	const contents = new TextDecoder("utf-8").decode(buffer);
+	return json5.parse(contents);
+}
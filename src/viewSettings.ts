@@ -0,0 +1,41 @@
+import * as vscode from 'vscode';
+import { ViewSettings } from './protocol';
+
+const affectedSettings = [
+	'editor.fontFamily',
+	'editor.fontSize',
+	'editor.fontLigatures',
+	'editor.tabSize',
+	'docsView.fontSize',
+	'docsView.codeBlocks.wordWrap',
+	'docsView.codeBlocks.maxLines',
+];
+
+export function affectsViewSettings(e: vscode.ConfigurationChangeEvent): boolean {
+	return affectedSettings.some(setting => e.affectsConfiguration(setting));
+}
+
+export function getViewSettings(): ViewSettings {
+	const editorConfig = vscode.workspace.getConfiguration('editor');
+	const docsViewConfig = vscode.workspace.getConfiguration('docsView');
+
+	return {
+		fontSize: docsViewConfig.get<number>('fontSize', 12),
+		codeFontFamily: editorConfig.get<string>('fontFamily', ''),
+		codeFontSize: editorConfig.get<number>('fontSize', 14),
+		codeFontFeatureSettings: getFontFeatureSettings(editorConfig.get<boolean | string>('fontLigatures', false)),
+		tabSize: editorConfig.get<number>('tabSize', 4),
+		wrapCode: docsViewConfig.get<boolean>('codeBlocks.wordWrap', true),
+		maxCodeLines: Math.max(0, docsViewConfig.get<number>('codeBlocks.maxLines', 30)),
+	};
+}
+
+/**
+ * Convert `editor.fontLigatures` to a css `font-feature-settings` value, the same way the editor does.
+ */
+function getFontFeatureSettings(ligatures: boolean | string): string {
+	if (typeof ligatures === 'string') {
+		return ligatures.trim() || '"liga" off, "calt" off';
+	}
+	return ligatures ? '"liga" on, "calt" on' : '"liga" off, "calt" off';
+}
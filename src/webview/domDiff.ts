@@ -0,0 +1,98 @@
+export interface PatchOptions {
+	/**
+	 * Leave an existing element as it is, such as content that the webview rendered itself.
+	 */
+	readonly isUnchanged?: (existing: Element, updated: Element) => boolean;
+
+	/**
+	 * Keep whether existing `<details>` are open, since the user may have toggled them.
+	 */
+	readonly preserveOpen?: boolean;
+}
+
+/**
+ * Update the children of `target` to match those of `updated`, reusing the existing nodes wherever possible.
+ *
+ * Unlike replacing `innerHTML`, this keeps the selection, focus and scroll position when little has changed.
+ * `updated` is left in an undefined state, since its nodes may be moved into `target`.
+ */
+export function patchChildren(target: Node, updated: Node, options: PatchOptions = {}): void {
+	// Elements with a key can be reused even when they moved, such as the section of a source that is now shown first
+	const keyed = new Map<string, ChildNode>();
+	for (const child of Array.from(target.childNodes)) {
+		const key = getKey(child);
+		if (key && !keyed.has(key)) {
+			keyed.set(key, child);
+		}
+	}
+
+	let next = target.firstChild;
+	for (const updatedChild of Array.from(updated.childNodes)) {
+		const key = getKey(updatedChild);
+		let existing: ChildNode | null | undefined;
+		if (key) {
+			existing = keyed.get(key);
+			keyed.delete(key);
+		} else if (next && !getKey(next)) {
+			existing = next;
+		}
+
+		if (existing && isSameKind(existing, updatedChild)) {
+			if (existing === next) {
+				next = next.nextSibling;
+			} else {
+				target.insertBefore(existing, next);
+			}
+			patchNode(existing, updatedChild, options);
+		} else {
+			target.insertBefore(updatedChild, next);
+		}
+	}
+
+	while (next) {
+		const after: ChildNode | null = next.nextSibling;
+		target.removeChild(next);
+		next = after;
+	}
+}
+
+function patchNode(existing: ChildNode, updated: ChildNode, options: PatchOptions) {
+	if (!(existing instanceof Element) || !(updated instanceof Element)) {
+		if (existing.nodeValue !== updated.nodeValue) {
+			existing.nodeValue = updated.nodeValue;
+		}
+		return;
+	}
+
+	if (options.isUnchanged?.(existing, updated)) {
+		return;
+	}
+
+	const isPreserved = (name: string) => options.preserveOpen && name === 'open' && existing.nodeName === 'DETAILS';
+
+	for (const { name } of Array.from(existing.attributes)) {
+		if (!updated.hasAttribute(name) && !isPreserved(name)) {
+			existing.removeAttribute(name);
+		}
+	}
+	for (const { name, value } of Array.from(updated.attributes)) {
+		if (existing.getAttribute(name) !== value && !isPreserved(name)) {
+			existing.setAttribute(name, value);
+		}
+	}
+
+	patchChildren(existing, updated, options);
+}
+
+function isSameKind(a: Node, b: Node): boolean {
+	return a.nodeType === b.nodeType && a.nodeName === b.nodeName;
+}
+
+function getKey(node: Node): string | undefined {
+	if (!(node instanceof Element)) {
+		return undefined;
+	}
+
+	const key = node.id || node.getAttribute('data-source');
+	return key ? `${node.nodeName}:${key}` : undefined;
+}
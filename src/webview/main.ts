@@ -0,0 +1,718 @@
+import { ExtensionMessage, protocolVersion, SearchResult, TabInfo, ViewSettings, WebviewMessage, WebviewUiState } from '../protocol';
+import { patchChildren } from './domDiff';
+
+interface State {
+	readonly content?: { readonly type: 'update' | 'noContent'; readonly body: string; readonly key?: string };
+	readonly scrollPositions: Record<string, number>;
+	readonly ui: WebviewUiState;
+}
+
+interface VsCodeApi {
+	postMessage(message: WebviewMessage): void;
+	getState(): Partial<State> | undefined;
+	setState(state: State): void;
+}
+
+declare function acquireVsCodeApi(): VsCodeApi;
+
+/**
+ * The parts of the mermaid script that the view uses.
+ */
+interface Mermaid {
+	initialize(config: { startOnLoad: boolean; securityLevel: 'strict'; theme: string }): void;
+	run(options: { nodes: ArrayLike<HTMLElement>; suppressErrors: boolean }): Promise<void>;
+}
+
+declare global {
+	interface Window {
+		readonly mermaid?: Mermaid;
+	}
+}
+
+(function () {
+	const vscode = acquireVsCodeApi();
+
+	const main = document.getElementById('main')!;
+	const tabs = document.getElementById('tabs')!;
+	const searchInput = document.getElementById('search-input') as HTMLInputElement;
+	const searchResults = document.getElementById('search-results')!;
+	const findWidget = document.getElementById('find-widget')!;
+	const findInput = document.getElementById('find-input') as HTMLInputElement;
+	const findCount = document.getElementById('find-count')!;
+	const status = document.getElementById('status')!;
+	const error = document.getElementById('error')!;
+
+	// Nonce of this script, needed to load other scripts
+	const scriptNonce = (document.currentScript as HTMLScriptElement).nonce;
+
+	/** Maximum number of entries to remember the scroll position of */
+	const maxScrollPositions = 50;
+
+	let state: State = { scrollPositions: {}, ui: { collapsedSources: [] }, ...vscode.getState() };
+
+	/** Key of the entry that is currently shown */
+	let currentKey: string | undefined;
+
+	/** Code blocks with more lines are collapsed, see {@link ViewSettings.maxCodeLines} */
+	let maxCodeLines = 30;
+
+	/** Indexes of the collapsed code blocks of the current entry that the user expanded */
+	let expandedCodeBlocks = new Set<number>();
+
+	// Handle messages sent from the extension to the webview
+	window.addEventListener('message', (event: MessageEvent<ExtensionMessage>) => {
+		const message = event.data;
+		switch (message.type) {
+			case 'update':
+				error.hidden = true;
+				updateContent(message.body, message.key);
+				break;
+
+			case 'codeBlock':
+				if (message.key === currentKey) {
+					updateCodeBlock(message.index, message.html);
+				}
+				break;
+
+			case 'noContent':
+				// Sticky update mode is handled by the extension
+				error.hidden = true;
+				setNoContent(message.body);
+				break;
+
+			case 'error':
+				error.textContent = message.message;
+				error.hidden = false;
+				break;
+
+			case 'tabs':
+				updateTabs(message.tabs, message.active);
+				break;
+
+			case 'searchResults':
+				updateSearchResults(message.results);
+				break;
+
+			case 'settings':
+				applySettings(message.settings);
+				break;
+
+			case 'state':
+				setState({ ...state, ui: message.state });
+				restoreCollapsedSources();
+				break;
+
+			case 'scroll':
+				window.scrollBy({ top: (message.direction === 'up' ? -0.8 : 0.8) * window.innerHeight });
+				break;
+		}
+	});
+
+	function setState(newState: State) {
+		state = newState;
+		vscode.setState(state);
+	}
+
+	document.addEventListener('keydown', event => {
+		if (event.defaultPrevented) {
+			return;
+		}
+
+		const isFind = (event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'f';
+		if (isFind) {
+			event.preventDefault();
+			openFind();
+		} else if (event.key === 'F3' && !findWidget.hidden) {
+			event.preventDefault();
+			revealMatch(event.shiftKey ? -1 : 1);
+		} else if (event.altKey && event.key === 'ArrowLeft') {
+			event.preventDefault();
+			vscode.postMessage({ type: 'back' });
+		} else if (event.altKey && event.key === 'ArrowRight') {
+			event.preventDefault();
+			vscode.postMessage({ type: 'forward' });
+		} else if (event.key === 'Escape') {
+			event.preventDefault();
+			vscode.postMessage({ type: 'focusEditor' });
+		}
+	});
+
+	main.addEventListener('click', event => {
+		const expandButton = (event.target as HTMLElement).closest('.expand-code');
+		const pre = expandButton?.parentElement;
+		if (!pre) {
+			return;
+		}
+
+		expandedCodeBlocks.add(getCodeBlocks(main).indexOf(pre));
+		pre.classList.remove('collapsed');
+		expandButton.remove();
+	});
+
+	main.addEventListener('click', event => {
+		const copyButton = (event.target as HTMLElement).closest('.copy-code');
+		if (!copyButton) {
+			return;
+		}
+
+		const code = copyButton.parentElement?.querySelector('code');
+		vscode.postMessage({ type: 'copy', text: (code ?? copyButton.parentElement)?.textContent ?? '' });
+	});
+
+	error.addEventListener('click', () => {
+		error.hidden = true;
+	});
+
+	// Route link clicks to the extension so that it can open them like VS Code's hovers do
+	main.addEventListener('click', event => {
+		const link = (event.target as HTMLElement).closest('a[href]');
+		if (!link) {
+			return;
+		}
+
+		event.preventDefault();
+		vscode.postMessage({ type: 'openLink', href: link.getAttribute('href')! });
+	});
+
+	// Remember which sources were collapsed, so that they stay collapsed for other symbols too
+	main.addEventListener('toggle', event => {
+		const section = event.target as HTMLDetailsElement;
+		const source = section.classList.contains('source-section') ? section.dataset.source : undefined;
+		if (source === undefined || state.ui.collapsedSources.includes(source) === !section.open) {
+			return;
+		}
+
+		const collapsedSources = state.ui.collapsedSources.filter(collapsed => collapsed !== source);
+		if (!section.open) {
+			collapsedSources.push(source);
+		}
+		setState({ ...state, ui: { collapsedSources } });
+		vscode.postMessage({ type: 'state', state: state.ui });
+	}, true);
+
+	function restoreCollapsedSources() {
+		for (const section of main.querySelectorAll<HTMLDetailsElement>('details.source-section')) {
+			section.open = !state.ui.collapsedSources.includes(section.dataset.source ?? '');
+		}
+	}
+
+	let searchTimeout: ReturnType<typeof setTimeout> | undefined;
+
+	searchInput.addEventListener('input', () => {
+		clearTimeout(searchTimeout);
+		searchTimeout = setTimeout(() => {
+			vscode.postMessage({ type: 'search', query: searchInput.value });
+		}, 200);
+	});
+
+	searchInput.addEventListener('keydown', event => {
+		if (event.key === 'Enter') {
+			const first = searchResults.querySelector('.search-result');
+			if (first) {
+				selectSymbol(first);
+			}
+		} else if (event.key === 'Escape') {
+			event.preventDefault();
+			clearSearch();
+		}
+	});
+
+	searchResults.addEventListener('click', event => {
+		const result = (event.target as HTMLElement).closest('.search-result');
+		if (result) {
+			selectSymbol(result);
+		}
+	});
+
+	function selectSymbol(result: Element) {
+		vscode.postMessage({ type: 'selectSymbol', index: Number(result.getAttribute('data-index')) });
+		clearSearch();
+	}
+
+	function clearSearch() {
+		clearTimeout(searchTimeout);
+		searchInput.value = '';
+		updateSearchResults([]);
+	}
+
+	function updateSearchResults(results: readonly SearchResult[]) {
+		searchResults.replaceChildren();
+		searchResults.hidden = results.length === 0 && !searchInput.value;
+		if (!searchInput.value) {
+			return;
+		}
+
+		if (!results.length) {
+			const empty = document.createElement('li');
+			empty.className = 'no-content';
+			empty.textContent = 'No matching symbols';
+			searchResults.append(empty);
+			return;
+		}
+
+		results.forEach((result, index) => {
+			const item = document.createElement('li');
+			item.className = 'search-result';
+			item.setAttribute('data-index', String(index));
+			item.title = result.detail;
+
+			const name = document.createElement('span');
+			name.className = 'search-result-name';
+			name.textContent = result.name;
+
+			const detail = document.createElement('span');
+			detail.className = 'search-result-detail';
+			detail.textContent = `${result.kind} · ${result.detail}`;
+
+			item.append(name, detail);
+			searchResults.append(item);
+		});
+	}
+
+	tabs.addEventListener('keydown', event => {
+		const tab = (event.target as HTMLElement).closest<HTMLElement>('.tab');
+		if (!tab) {
+			return;
+		}
+
+		if (event.key === 'Enter' || event.key === ' ') {
+			event.preventDefault();
+			tab.click();
+		} else if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+			event.preventDefault();
+			const sibling = event.key === 'ArrowLeft' ? tab.previousElementSibling : tab.nextElementSibling;
+			(sibling as HTMLElement | null)?.focus();
+		}
+	});
+
+	tabs.addEventListener('click', event => {
+		const target = event.target as HTMLElement;
+
+		const close = target.closest('.tab-close');
+		if (close) {
+			vscode.postMessage({ type: 'closeTab', id: Number(close.getAttribute('data-id')) });
+			return;
+		}
+
+		const tab = target.closest('.tab');
+		if (tab) {
+			const id = tab.getAttribute('data-id');
+			vscode.postMessage({ type: 'focusTab', id: id ? Number(id) : null });
+		}
+	});
+
+	/**
+	 * @param key Identifies the entry, so that its scroll position can be restored
+	 */
+	function updateContent(contents: string, key: string | undefined) {
+		saveScrollPosition();
+		const isSameEntry = key !== undefined && key === currentKey;
+		const scrollY = window.scrollY;
+		if (!isSameEntry) {
+			expandedCodeBlocks = new Set();
+		}
+
+		const updated = document.createElement('template');
+		updated.innerHTML = contents;
+		addCopyButtons(updated.content);
+		collapseCodeBlocks(updated.content);
+
+		// Marks would otherwise show up as changes
+		clearMatches();
+		patchChildren(main, updated.content, {
+			// Diagrams that are still the same don't have to be drawn again
+			isUnchanged: (existing, updatedElement) =>
+				existing.matches('pre.mermaid[data-diagram]')
+				&& updatedElement.matches('pre.mermaid')
+				&& existing.getAttribute('data-diagram') === updatedElement.textContent,
+			preserveOpen: isSameEntry,
+		});
+		if (!isSameEntry) {
+			restoreCollapsedSources();
+		}
+		renderDiagrams();
+		if (!findWidget.hidden) {
+			highlightMatches();
+		}
+
+		// Keep the position when the same entry is rendered again, such as after a theme change
+		currentKey = key;
+		window.scrollTo(0, isSameEntry ? scrollY : (key && state.scrollPositions[key]) || 0);
+
+		setState({ ...state, content: { type: 'update', body: contents, key } });
+
+		if (!isSameEntry) {
+			const summary = (main.textContent ?? '').trim().split('\n')[0].slice(0, 100);
+			announce(`Documentation updated: ${summary}`);
+		}
+	}
+
+	/**
+	 * Replace the unhighlighted placeholder of a code block once it is highlighted.
+	 */
+	function updateCodeBlock(index: number, html: string) {
+		const placeholder = main.querySelector(`pre[data-code-block="${index}"]`);
+		if (!placeholder) {
+			return;
+		}
+
+		const updated = document.createElement('template');
+		updated.innerHTML = html;
+		addCopyButtons(updated.content);
+		const pre = updated.content.querySelector('pre');
+		if (pre) {
+			collapseCodeBlock(pre, getCodeBlocks(main).indexOf(placeholder));
+		}
+
+		clearMatches();
+		placeholder.replaceWith(updated.content);
+		if (!findWidget.hidden) {
+			highlightMatches();
+		}
+	}
+
+	let scrollTimeout: ReturnType<typeof setTimeout> | undefined;
+
+	window.addEventListener('scroll', () => {
+		clearTimeout(scrollTimeout);
+		scrollTimeout = setTimeout(() => {
+			saveScrollPosition();
+			vscode.setState(state);
+		}, 100);
+	});
+
+	function saveScrollPosition() {
+		if (currentKey === undefined) {
+			return;
+		}
+
+		// Re-insert the key so that the least recently shown entries are dropped first
+		delete state.scrollPositions[currentKey];
+		state.scrollPositions[currentKey] = window.scrollY;
+
+		const keys = Object.keys(state.scrollPositions);
+		for (const key of keys.slice(0, keys.length - maxScrollPositions)) {
+			delete state.scrollPositions[key];
+		}
+	}
+
+	function updateTabs(pinned: readonly TabInfo[], active: number | null) {
+		tabs.replaceChildren();
+		tabs.hidden = pinned.length === 0;
+		if (!pinned.length) {
+			return;
+		}
+
+		tabs.append(createTab(null, 'Current', active === null));
+		for (const entry of pinned) {
+			const tab = createTab(entry.id, entry.title, entry.id === active);
+
+			const close = document.createElement('button');
+			close.className = 'tab-close';
+			close.title = 'Unpin';
+			close.tabIndex = -1;
+			close.setAttribute('aria-label', `Unpin ${entry.title}`);
+			close.textContent = '×';
+			close.setAttribute('data-id', String(entry.id));
+			tab.append(close);
+
+			tabs.append(tab);
+		}
+	}
+
+	function createTab(id: number | null, title: string, isActive: boolean): HTMLElement {
+		const tab = document.createElement('div');
+		tab.className = 'tab' + (isActive ? ' active' : '');
+		tab.setAttribute('data-id', id === null ? '' : String(id));
+		tab.setAttribute('role', 'tab');
+		tab.setAttribute('aria-selected', String(isActive));
+		tab.tabIndex = isActive ? 0 : -1;
+
+		const label = document.createElement('span');
+		label.className = 'tab-label';
+		label.textContent = title;
+		tab.append(label);
+		return tab;
+	}
+
+	function addCopyButtons(root: ParentNode) {
+		for (const pre of root.querySelectorAll('pre:not(.mermaid)')) {
+			const button = document.createElement('button');
+			button.className = 'copy-code';
+			button.title = 'Copy';
+			button.setAttribute('aria-label', 'Copy code');
+			button.textContent = 'Copy';
+			pre.append(button);
+		}
+	}
+
+	function getCodeBlocks(root: ParentNode): Element[] {
+		return Array.from(root.querySelectorAll('pre:not(.mermaid)'));
+	}
+
+	/**
+	 * Collapse the long code blocks, except for the ones that the user expanded.
+	 */
+	function collapseCodeBlocks(root: ParentNode) {
+		getCodeBlocks(root).forEach((pre, index) => collapseCodeBlock(pre, index));
+	}
+
+	function collapseCodeBlock(pre: Element, index: number) {
+		pre.classList.remove('collapsed');
+		pre.querySelector(':scope > .expand-code')?.remove();
+
+		const lineCount = ((pre.querySelector('code') ?? pre).textContent ?? '').replace(/\n$/, '').split('\n').length;
+		if (!maxCodeLines || lineCount <= maxCodeLines || expandedCodeBlocks.has(index)) {
+			return;
+		}
+
+		const button = document.createElement('button');
+		button.className = 'expand-code';
+		button.textContent = `Show all ${lineCount} lines`;
+		pre.classList.add('collapsed');
+		pre.append(button);
+	}
+
+	let mermaidLoader: Promise<Mermaid> | undefined;
+
+	/**
+	 * Load mermaid the first time that documentation contains a diagram.
+	 */
+	function loadMermaid(): Promise<Mermaid> {
+		mermaidLoader ??= new Promise((resolve, reject) => {
+			const script = document.createElement('script');
+			script.nonce = scriptNonce;
+			script.src = document.body.getAttribute('data-mermaid-uri') ?? '';
+			script.onload = () => {
+				const mermaid = window.mermaid;
+				if (!mermaid) {
+					reject(new Error('Mermaid did not load'));
+					return;
+				}
+				mermaid.initialize({
+					startOnLoad: false,
+					securityLevel: 'strict',
+					theme: document.body.classList.contains('vscode-light') ? 'default' : 'dark',
+				});
+				resolve(mermaid);
+			};
+			script.onerror = () => reject(new Error('Could not load the mermaid script'));
+			document.head.append(script);
+		});
+		return mermaidLoader;
+	}
+
+	async function renderDiagrams() {
+		const diagrams = main.querySelectorAll<HTMLElement>('pre.mermaid:not([data-diagram])');
+		if (!diagrams.length) {
+			return;
+		}
+
+		// Mermaid replaces the source with the drawing, so keep it to tell whether the diagram changed
+		for (const diagram of diagrams) {
+			diagram.setAttribute('data-diagram', diagram.textContent ?? '');
+		}
+
+		try {
+			const mermaid = await loadMermaid();
+			await mermaid.run({ nodes: diagrams, suppressErrors: true });
+		} catch (e) {
+			// Leave the source of the diagram in place
+			vscode.postMessage({ type: 'error', message: `Could not render diagrams: ${e instanceof Error ? e.message : String(e)}` });
+		}
+	}
+
+	function applySettings(settings: ViewSettings) {
+		const style = document.documentElement.style;
+		style.setProperty('--docs-font-size', `${settings.fontSize}px`);
+		if (settings.codeFontFamily) {
+			style.setProperty('--docs-code-font-family', settings.codeFontFamily);
+		} else {
+			style.removeProperty('--docs-code-font-family');
+		}
+		style.setProperty('--docs-code-font-size', `${settings.codeFontSize}px`);
+		style.setProperty('--docs-code-font-feature-settings', settings.codeFontFeatureSettings);
+		style.setProperty('--docs-tab-size', String(settings.tabSize));
+		document.body.classList.toggle('no-wrap-code', !settings.wrapCode);
+
+		style.setProperty('--docs-code-max-lines', String(settings.maxCodeLines));
+		if (settings.maxCodeLines !== maxCodeLines) {
+			maxCodeLines = settings.maxCodeLines;
+			collapseCodeBlocks(main);
+		}
+	}
+
+	/**
+	 * Have screen readers read out a message.
+	 */
+	function announce(message: string) {
+		// Clear first so that the same message is announced again
+		status.textContent = '';
+		setTimeout(() => {
+			status.textContent = message;
+		}, 50);
+	}
+
+	findInput.addEventListener('input', () => {
+		highlightMatches();
+	});
+
+	findInput.addEventListener('keydown', event => {
+		if (event.key === 'Enter') {
+			event.preventDefault();
+			revealMatch(event.shiftKey ? -1 : 1);
+		} else if (event.key === 'Escape') {
+			event.preventDefault();
+			closeFind();
+		}
+	});
+
+	findWidget.addEventListener('click', event => {
+		const button = (event.target as HTMLElement).closest('button');
+		switch (button?.id) {
+			case 'find-previous':
+				revealMatch(-1);
+				break;
+			case 'find-next':
+				revealMatch(1);
+				break;
+			case 'find-close':
+				closeFind();
+				break;
+		}
+	});
+
+	let findMatches: HTMLElement[] = [];
+	let findIndex = -1;
+
+	function openFind() {
+		findWidget.hidden = false;
+		findInput.focus();
+		findInput.select();
+		highlightMatches();
+	}
+
+	function closeFind() {
+		findWidget.hidden = true;
+		clearMatches();
+		updateFindCount();
+		main.focus();
+	}
+
+	/**
+	 * Highlight all occurrences of the find input in the docs and reveal the first one.
+	 */
+	function highlightMatches() {
+		clearMatches();
+
+		const query = findInput.value.toLowerCase();
+		if (query) {
+			const walker = document.createTreeWalker(main, NodeFilter.SHOW_TEXT, {
+				// Skip the buttons and diagrams, which can't contain marks
+				acceptNode: node => node.parentElement?.closest('.copy-code, .expand-code, svg') ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT,
+			});
+
+			const nodes: Text[] = [];
+			while (walker.nextNode()) {
+				nodes.push(walker.currentNode as Text);
+			}
+
+			for (const node of nodes) {
+				const text = node.data;
+				const lower = text.toLowerCase();
+				let index = lower.indexOf(query);
+				if (index < 0) {
+					continue;
+				}
+
+				const fragment = document.createDocumentFragment();
+				let last = 0;
+				while (index >= 0) {
+					fragment.append(text.slice(last, index));
+
+					const mark = document.createElement('mark');
+					mark.className = 'find-match';
+					mark.textContent = text.slice(index, index + query.length);
+					fragment.append(mark);
+					findMatches.push(mark);
+
+					last = index + query.length;
+					index = lower.indexOf(query, last);
+				}
+				fragment.append(text.slice(last));
+				node.replaceWith(fragment);
+			}
+		}
+
+		findIndex = -1;
+		if (findMatches.length) {
+			revealMatch(1);
+		} else {
+			updateFindCount();
+		}
+	}
+
+	function clearMatches() {
+		if (!findMatches.length) {
+			return;
+		}
+
+		for (const mark of findMatches) {
+			mark.replaceWith(mark.textContent ?? '');
+		}
+		main.normalize();
+		findMatches = [];
+		findIndex = -1;
+	}
+
+	function revealMatch(direction: 1 | -1) {
+		if (!findMatches.length) {
+			return;
+		}
+
+		findMatches[findIndex]?.classList.remove('current');
+		findIndex = (findIndex + direction + findMatches.length) % findMatches.length;
+
+		const match = findMatches[findIndex];
+		match.classList.add('current');
+		match.scrollIntoView({ block: 'center' });
+		updateFindCount();
+	}
+
+	function updateFindCount() {
+		if (!findInput.value) {
+			findCount.textContent = '';
+		} else if (!findMatches.length) {
+			findCount.textContent = 'No results';
+		} else {
+			findCount.textContent = `${findIndex + 1} of ${findMatches.length}`;
+		}
+	}
+
+	function setNoContent(message: string) {
+		saveScrollPosition();
+		currentKey = undefined;
+
+		clearMatches();
+		main.replaceChildren();
+		const paragraph = document.createElement('p');
+		paragraph.className = 'no-content';
+		paragraph.textContent = message;
+		main.append(paragraph);
+		if (!findWidget.hidden) {
+			highlightMatches();
+		}
+		announce(message);
+
+		setState({ ...state, content: { type: 'noContent', body: message } });
+	}
+
+	// Show the last content right away instead of a blank view until the extension sends it again
+	if (state.content?.type === 'update') {
+		updateContent(state.content.body, state.content.key);
+	} else if (state.content?.type === 'noContent') {
+		setNoContent(state.content.body);
+	}
+
+	vscode.postMessage({ type: 'ready', version: protocolVersion });
+}());
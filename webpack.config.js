@@ -10,16 +10,25 @@
 const path = require('path');
 
 /**@type {import('webpack').Configuration}*/
-const config = {
+const extensionConfig = {
+    name: 'extension',
     target: 'node',
 
-    entry: './src/extension.ts',
+    entry: {
+        extension: './src/extension.ts',
+        // Loaded by the code highlighter as a worker thread
+        highlightWorker: './src/highlightWorker.ts',
+    },
     output: {
         path: path.resolve(__dirname, 'dist'),
-        filename: 'extension.js',
+        filename: '[name].js',
         libraryTarget: "commonjs2",
         devtoolModuleFilenameTemplate: "../[resource-path]",
     },
+    // Keep the real directory, which the worker is loaded from
+    node: {
+        __dirname: false,
+    },
     devtool: 'source-map',
     externals: {
         vscode: "commonjs vscode",
@@ -44,4 +53,36 @@ const config = {
     },
 }
 
-module.exports = config;
+/**
+ * The script that runs inside the documentation webview.
+ *
+ * @type {import('webpack').Configuration}
+ */
+const webviewConfig = {
+    name: 'webview',
+    target: 'web',
+
+    entry: './src/webview/main.ts',
+    output: {
+        path: path.resolve(__dirname, 'dist', 'webview'),
+        filename: 'main.js',
+    },
+    devtool: 'source-map',
+    resolve: {
+        extensions: ['.ts', '.js']
+    },
+    module: {
+        rules: [{
+            test: /\.ts$/,
+            exclude: /node_modules/,
+            use: [{
+                loader: 'ts-loader',
+                options: {
+                    configFile: path.resolve(__dirname, 'src', 'webview', 'tsconfig.json'),
+                }
+            }]
+        }]
+    },
+}
+
+module.exports = [extensionConfig, webviewConfig];